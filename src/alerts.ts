@@ -0,0 +1,298 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { Market } from "./schemas";
+import type { ParadexFeed } from "./feed";
+import type { AlertCondition, AlertMetric } from "./parser";
+
+// Price and market condition alerts. Rules are checked against the cached
+// market list on a timer and against markets_summary events when the feed is
+// connected. Rules and their trigger history are kept in <dataDir>/alerts.json.
+
+export type AlertMode = 'once' | 'recurring';
+
+export interface AlertSpec {
+    market: string;
+    metric: AlertMetric;
+    condition: AlertCondition;
+    threshold: number;
+    mode: AlertMode;
+    // Recurring alerts stay quiet this long after triggering
+    cooldownSeconds?: number;
+    // The request the alert was created from, repeated when it triggers
+    note?: string;
+}
+
+export interface AlertRecord extends Required<Omit<AlertSpec, 'note'>> {
+    id: string;
+    note?: string;
+    createdAt: number;
+    // One-shot alerts stop at 'triggered'
+    status: 'active' | 'triggered';
+    triggerCount: number;
+    lastTriggeredAt?: number;
+    // Last value seen, crossing needs the side it came from
+    lastValue?: number;
+}
+
+export type AlertEvent = { type: 'triggered'; alert: AlertRecord; value: number; previous?: number };
+
+export const DEFAULT_ALERT_COOLDOWN_SECONDS = 300;
+
+// The fields alerts read, common to /markets and markets_summary events
+export interface MarketValues {
+    last_price?: string;
+    last_traded_price?: string;
+    mark_price?: string;
+    funding_rate?: string;
+    open_interest?: string;
+}
+
+export const METRIC_LABELS: Record<AlertMetric, string> = {
+    price: 'price',
+    mark: 'mark price',
+    funding: 'funding rate',
+    open_interest: 'open interest',
+};
+
+// Metric value of a market from /markets or a markets_summary event, the last
+// price falls back to the mark
+export function metricValue(metric: AlertMetric, data: MarketValues): number | undefined {
+    const fields: Record<AlertMetric, Array<string | undefined>> = {
+        price: [data.last_price ?? data.last_traded_price, data.mark_price],
+        mark: [data.mark_price],
+        funding: [data.funding_rate],
+        open_interest: [data.open_interest],
+    };
+    const raw = fields[metric].find((v) => v !== undefined && v !== '');
+    const value = Number(raw);
+    return raw === undefined || !Number.isFinite(value) ? undefined : value;
+}
+
+// Whether a new value sets the alert off. Above and below fire on entering the
+// zone, or straight away when it is already there on the first value; crosses
+// needs a previous value on the other side of the threshold.
+export function isTriggered(alert: AlertRecord, value: number, now = Date.now()): boolean {
+    if (alert.status !== 'active') return false;
+    if (alert.lastTriggeredAt !== undefined && now - alert.lastTriggeredAt < alert.cooldownSeconds * 1000) return false;
+
+    const previous = alert.lastValue;
+    const above = (v: number) => v > alert.threshold;
+    const below = (v: number) => v < alert.threshold;
+    switch (alert.condition) {
+        case 'above':
+            return above(value) && (previous === undefined || !above(previous));
+        case 'below':
+            return below(value) && (previous === undefined || !below(previous));
+        case 'crosses':
+            return previous !== undefined &&
+                ((previous < alert.threshold && value >= alert.threshold) || (previous > alert.threshold && value <= alert.threshold));
+    }
+}
+
+export function formatMetric(metric: AlertMetric, value: number): string {
+    if (metric === 'funding') return `${(value * 100).toFixed(4)}%`;
+    return String(Number(value.toPrecision(10)));
+}
+
+export function formatAlert(alert: AlertRecord): string {
+    const rule = `${alert.market} ${METRIC_LABELS[alert.metric]} ${alert.condition} ${formatMetric(alert.metric, alert.threshold)}`;
+    const mode = alert.mode === 'recurring' ? `recurring, ${alert.cooldownSeconds}s cooldown` : 'once';
+    const last = alert.lastTriggeredAt
+        ? `, triggered ${alert.triggerCount}x, last at ${new Date(alert.lastTriggeredAt).toISOString()}`
+        : '';
+    const current = alert.lastValue !== undefined ? `, now ${formatMetric(alert.metric, alert.lastValue)}` : '';
+    return `• ${alert.id}: ${rule} (${mode}) [${alert.status}${last}${current}]`;
+}
+
+export interface AlertManagerOptions {
+    filePath: string;
+    loadMarkets: () => Promise<Market[]>;
+    pollSeconds: number;
+    // markets_summary events are checked as they arrive
+    feed?: ParadexFeed;
+}
+
+export class AlertManager {
+    private readonly options: AlertManagerOptions;
+    private alerts = new Map<string, AlertRecord>();
+    private listeners = new Set<(event: AlertEvent) => void>();
+    private nextId = 1;
+    private timer?: ReturnType<typeof setInterval>;
+    private unsubscribe?: () => void;
+    private polling = false;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(options: AlertManagerOptions) {
+        this.options = options;
+    }
+
+    async load(): Promise<void> {
+        const content = await readFile(this.options.filePath, "utf8").catch(() => "");
+        const saved: AlertRecord[] = content ? JSON.parse(content) : [];
+        for (const alert of saved) {
+            this.alerts.set(alert.id, alert);
+            this.nextId = Math.max(this.nextId, Number(alert.id.split('-')[1]) + 1 || 0);
+        }
+    }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.poll(), this.options.pollSeconds * 1000);
+        this.unsubscribe = this.options.feed?.subscribe((event) => {
+            if (event.type === 'markets_summary') {
+                this.evaluate(event.market, event.data);
+            }
+        });
+        void this.poll();
+    }
+
+    stop() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.unsubscribe?.();
+    }
+
+    subscribe(listener: (event: AlertEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    list(): AlertRecord[] {
+        return [...this.alerts.values()];
+    }
+
+    async create(spec: AlertSpec): Promise<AlertRecord> {
+        if (!Number.isFinite(spec.threshold)) {
+            throw new Error('The alert threshold must be a number');
+        }
+        const alert: AlertRecord = {
+            id: `alert-${this.nextId++}`,
+            market: spec.market,
+            metric: spec.metric,
+            condition: spec.condition,
+            threshold: spec.threshold,
+            mode: spec.mode,
+            cooldownSeconds: spec.cooldownSeconds ?? DEFAULT_ALERT_COOLDOWN_SECONDS,
+            note: spec.note,
+            createdAt: Date.now(),
+            status: 'active',
+            triggerCount: 0,
+        };
+        this.alerts.set(alert.id, alert);
+        await this.save();
+        // Seeds lastValue, an above/below rule that already holds fires right away
+        if (this.timer) void this.poll();
+        return alert;
+    }
+
+    async remove(id: string): Promise<AlertRecord> {
+        const alert = this.alerts.get(id);
+        if (!alert) {
+            throw new Error(`No alert ${id}`);
+        }
+        this.alerts.delete(id);
+        await this.save();
+        return alert;
+    }
+
+    // Checks every active alert against the market list, one poll at a time
+    async poll(): Promise<void> {
+        if (this.polling || ![...this.alerts.values()].some((a) => a.status === 'active')) return;
+        this.polling = true;
+        try {
+            const markets = await this.options.loadMarkets();
+            for (const market of markets) {
+                this.evaluate(market.symbol, market);
+            }
+        } catch (error) {
+            console.error('Alert check failed:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private evaluate(market: string, data: MarketValues) {
+        const now = Date.now();
+        let changed = false;
+        for (const alert of this.alerts.values()) {
+            if (alert.market !== market || alert.status !== 'active') continue;
+            const value = metricValue(alert.metric, data);
+            if (value === undefined) continue;
+
+            const previous = alert.lastValue;
+            const triggered = isTriggered(alert, value, now);
+            alert.lastValue = value;
+            if (!triggered) continue;
+
+            alert.triggerCount++;
+            alert.lastTriggeredAt = now;
+            if (alert.mode === 'once') alert.status = 'triggered';
+            changed = true;
+            this.emit({ type: 'triggered', alert: { ...alert }, value, previous });
+        }
+        // lastValue alone is not worth a write, it is reseeded after a restart
+        if (changed) void this.save();
+    }
+
+    private save(): Promise<void> {
+        const content = JSON.stringify(this.list(), null, 2);
+        this.writes = this.writes.then(async () => {
+            await mkdir(path.dirname(this.options.filePath), { recursive: true });
+            const temporary = `${this.options.filePath}.tmp`;
+            await writeFile(temporary, content);
+            await rename(temporary, this.options.filePath);
+        }).catch((error) => console.error('Failed to save alerts:', error));
+        return this.writes;
+    }
+
+    private emit(event: AlertEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Alert listener failed:', error);
+            }
+        }
+    }
+}
+
+function describeEvent({ alert, value }: AlertEvent): string {
+    const verb = alert.condition === 'crosses' ? 'crossed' : `is ${alert.condition}`;
+    const lines = [
+        `Alert ${alert.id}: ${alert.market} ${METRIC_LABELS[alert.metric]} ${verb} ` +
+            `${formatMetric(alert.metric, alert.threshold)}, now ${formatMetric(alert.metric, value)}` +
+            (alert.mode === 'once' ? ' (one-shot, now inactive)' : ` (recurring, next after ${alert.cooldownSeconds}s)`),
+    ];
+    if (alert.note) lines.push(`Requested as: "${alert.note}"`);
+    return lines.join('\n');
+}
+
+// Pushes triggered alerts into the agent
+export function createAlertInput(manager: AlertManager) {
+    return input({
+        schema: z.object({
+            id: z.string(),
+            market: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return manager.subscribe((event) => {
+                send(cli.contexts!.cli, { user: "admin" }, {
+                    id: event.alert.id,
+                    market: event.alert.market,
+                    text: describeEvent(event),
+                });
+            });
+        },
+    });
+}
@@ -0,0 +1,269 @@
+import type { CandleResolution } from "./types";
+import type { Candle, FundingData } from "./schemas";
+import {
+    atr,
+    averageFundingRate,
+    ema,
+    last,
+    realizedVolatility,
+    recentCrossover,
+    rsi,
+    sma,
+    vwap,
+} from "./indicators";
+
+// Recommendation and position sizing from candles and funding history. Pure, so
+// the live analysis and the backtester run exactly the same rules.
+
+export interface RiskBand {
+    level: 'LOW' | 'MEDIUM' | 'HIGH';
+    maxPositionSize: number;
+    stopLossPercent: number;
+}
+
+export interface PositionLimits {
+    maxLeverage: number;
+    maxPositionValue: number;
+    recommendedPositionSize: number;
+    riskBand: RiskBand;
+}
+
+// One input to the recommendation: `score` runs from -1 (bearish) to 1 (bullish)
+// and adds `score * weight` to the total
+export interface AnalysisSignal {
+    name: string;
+    score: number;
+    weight: number;
+    contribution: number;
+    detail: string;
+}
+
+export interface AnalysisResult {
+    recommendation: 'BUY' | 'SELL' | 'HOLD';
+    confidence: number;
+    reasoning: string;
+    signals: AnalysisSignal[];
+    metrics: {
+        resolution: CandleResolution;
+        candles: number;
+        lastPrice: number;
+        // ATR over one day as a fraction of the price
+        volatility: number;
+        atr: number;
+        // Standard deviation of daily log returns
+        realizedVolatility: number;
+        // Close-to-close change over the analysed window
+        momentum: number;
+        rsi: number;
+        emaFast: number;
+        emaSlow: number;
+        sma: number;
+        vwap: number;
+        // Mean 8h funding rate over the funding history
+        fundingRate: number;
+        // Volume of the last day of candles against the window's daily average
+        volume_trend: number;
+    };
+    positionLimits: PositionLimits;
+}
+
+export interface EvaluationInput {
+    resolution: CandleResolution;
+    accountValue: number;
+    // Latest traded price, defaults to the last close
+    lastPrice?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Funding history the funding signal averages over
+export const FUNDING_LOOKBACK_MS = 3 * DAY_MS;
+
+// Indicator periods, in candles
+const EMA_FAST_PERIOD = 12;
+const EMA_SLOW_PERIOD = 26;
+const SMA_PERIOD = 50;
+const RSI_PERIOD = 14;
+const ATR_PERIOD = 14;
+export const MIN_ANALYSIS_CANDLES = EMA_SLOW_PERIOD + 1;
+// Net weighted score a BUY or SELL needs
+const RECOMMENDATION_THRESHOLD = 0.2;
+
+// `volatility` is the daily ATR as a fraction of the price
+export function calculatePositionLimits(
+    accountValue: number,
+    volatility: number
+): PositionLimits {
+    const baseMaxLeverage = 20;
+    const volatilityAdjustedLeverage = Math.max(1, Math.min(
+        baseMaxLeverage,
+        baseMaxLeverage * (1 - volatility * 5)
+    ));
+
+    const maxPositionValue = accountValue * volatilityAdjustedLeverage;
+    // Two days' ATR, so normal noise doesn't take the stop out
+    const stopLossPercent = Number(Math.min(15, Math.max(1, volatility * 200)).toFixed(1));
+
+    let riskBand: RiskBand;
+    if (volatility < 0.03) {
+        riskBand = {
+            level: 'LOW',
+            maxPositionSize: accountValue * 0.5,
+            stopLossPercent
+        };
+    } else if (volatility < 0.06) {
+        riskBand = {
+            level: 'MEDIUM',
+            maxPositionSize: accountValue * 0.3,
+            stopLossPercent
+        };
+    } else {
+        riskBand = {
+            level: 'HIGH',
+            maxPositionSize: accountValue * 0.1,
+            stopLossPercent
+        };
+    }
+
+    const recommendedPositionSize = Math.min(
+        riskBand.maxPositionSize,
+        maxPositionValue * 0.25
+    );
+
+    return {
+        maxLeverage: volatilityAdjustedLeverage,
+        maxPositionValue,
+        recommendedPositionSize,
+        riskBand
+    };
+}
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+const percent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+function signal(name: string, score: number, weight: number, detail: string): AnalysisSignal {
+    const clamped = Number.isFinite(score) ? clamp(score) : 0;
+    return { name, score: clamped, weight, contribution: clamped * weight, detail };
+}
+
+// Candles oldest first, `funding` covers the FUNDING_LOOKBACK_MS before the last candle
+export function evaluateMarket(candles: Candle[], funding: FundingData[], input: EvaluationInput): AnalysisResult {
+    if (candles.length < MIN_ANALYSIS_CANDLES) {
+        throw new Error(`At least ${MIN_ANALYSIS_CANDLES} candles are needed, got ${candles.length}`);
+    }
+    const { resolution, accountValue } = input;
+
+    const closes = candles.map((candle) => candle.close);
+    const lastPrice = input.lastPrice ?? last(closes);
+    const candlesPerDay = DAY_MS / (resolution * 60 * 1000);
+
+    const emaFastSeries = ema(closes, EMA_FAST_PERIOD);
+    const emaSlowSeries = ema(closes, EMA_SLOW_PERIOD);
+    const emaFast = last(emaFastSeries);
+    const emaSlow = last(emaSlowSeries);
+    const cross = recentCrossover(emaFastSeries, emaSlowSeries);
+    const smaValue = last(sma(closes, SMA_PERIOD));
+    const rsiValue = last(rsi(closes, RSI_PERIOD));
+    const atrValue = last(atr(candles, ATR_PERIOD));
+    const vwapValue = vwap(candles);
+    const fundingRate = averageFundingRate(funding);
+    const volatility = atrValue / lastPrice * Math.sqrt(candlesPerDay);
+    const dailyRealizedVolatility = realizedVolatility(candles) * Math.sqrt(candlesPerDay);
+    const momentum = lastPrice / closes[0] - 1;
+
+    const recentCandles = candles.slice(-Math.max(1, Math.round(candlesPerDay)));
+    const recentVolume = recentCandles.reduce((total, candle) => total + candle.volume, 0) / recentCandles.length;
+    const averageVolume = candles.reduce((total, candle) => total + candle.volume, 0) / candles.length;
+    const volumeTrend = averageVolume > 0 ? recentVolume / averageVolume : 0;
+
+    const emaGap = (emaFast - emaSlow) / emaSlow;
+    const rsiScore = rsiValue > 70 ? -(rsiValue - 70) / 30 : rsiValue < 30 ? (30 - rsiValue) / 30 : (rsiValue - 50) / 40;
+    const signals = [
+        signal(
+            `EMA ${EMA_FAST_PERIOD}/${EMA_SLOW_PERIOD}`,
+            cross ? cross * Math.max(Math.abs(emaGap / 0.01), 0.5) : emaGap / 0.01,
+            0.3,
+            `fast ${emaFast.toFixed(2)} ${emaGap >= 0 ? 'above' : 'below'} slow ${emaSlow.toFixed(2)} (${percent(emaGap)})` +
+                (cross ? `, crossed ${cross > 0 ? 'up' : 'down'} in the last 3 candles` : ''),
+        ),
+        signal(
+            `SMA ${SMA_PERIOD}`,
+            (lastPrice - smaValue) / smaValue / 0.03,
+            0.15,
+            Number.isNaN(smaValue)
+                ? 'not enough history'
+                : `price ${percent(lastPrice / smaValue - 1)} from ${smaValue.toFixed(2)}`,
+        ),
+        signal(
+            `RSI ${RSI_PERIOD}`,
+            rsiScore,
+            0.2,
+            `${rsiValue.toFixed(1)}${rsiValue > 70 ? ', overbought' : rsiValue < 30 ? ', oversold' : ''}`,
+        ),
+        signal(
+            'VWAP',
+            (lastPrice - vwapValue) / vwapValue / 0.01,
+            0.15,
+            `price ${percent(lastPrice / vwapValue - 1)} from ${vwapValue.toFixed(2)}`,
+        ),
+        // Rich funding means crowded longs, which leans against buying
+        signal(
+            'Funding',
+            -fundingRate / 0.0003,
+            0.1,
+            funding.length
+                ? `average ${(fundingRate * 100).toFixed(4)}% per 8h over ${Math.round(FUNDING_LOOKBACK_MS / DAY_MS)} days`
+                : 'no funding history',
+        ),
+        // Heavy volume backs whichever way price moved over the window
+        signal(
+            'Volume',
+            volumeTrend > 1 ? Math.sign(momentum) * (volumeTrend - 1) : 0,
+            0.1,
+            `last day at ${volumeTrend.toFixed(2)}x the average, price ${percent(momentum)} over the window`,
+        ),
+    ];
+
+    const score = signals.reduce((total, s) => total + s.contribution, 0);
+    const recommendation: 'BUY' | 'SELL' | 'HOLD' = score >= RECOMMENDATION_THRESHOLD
+        ? 'BUY'
+        : score <= -RECOMMENDATION_THRESHOLD ? 'SELL' : 'HOLD';
+    let confidence = recommendation === 'HOLD'
+        ? 1 - Math.abs(score) / RECOMMENDATION_THRESHOLD * 0.5
+        : Math.min(0.9, 0.4 + Math.abs(score));
+
+    const positionLimits = calculatePositionLimits(accountValue, volatility);
+
+    let reasoning = signals
+        .map((s) => `${s.name}: ${s.detail} -> ${s.contribution >= 0 ? '+' : ''}${s.contribution.toFixed(3)}`)
+        .join('; ') +
+        `. Net score ${score >= 0 ? '+' : ''}${score.toFixed(3)} (BUY above +${RECOMMENDATION_THRESHOLD}, SELL below -${RECOMMENDATION_THRESHOLD})`;
+
+    if (positionLimits.riskBand.level === 'HIGH') {
+        confidence *= 0.8;
+        reasoning += `. High risk conditions, daily ATR is ${(volatility * 100).toFixed(1)}% of the price - exercise caution`;
+    }
+
+    return {
+        recommendation,
+        confidence: Number(confidence.toFixed(2)),
+        reasoning,
+        signals,
+        metrics: {
+            resolution,
+            candles: candles.length,
+            lastPrice,
+            volatility: Number(volatility.toFixed(4)),
+            atr: atrValue,
+            realizedVolatility: Number(dailyRealizedVolatility.toFixed(4)),
+            momentum: Number(momentum.toFixed(4)),
+            rsi: Number(rsiValue.toFixed(2)),
+            emaFast,
+            emaSlow,
+            sma: smaValue,
+            vwap: vwapValue,
+            fundingRate,
+            volume_trend: Number(volumeTrend.toFixed(4))
+        },
+        positionLimits
+    };
+}
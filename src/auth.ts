@@ -0,0 +1,204 @@
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { ParadexAccount } from "./types";
+
+// Keeps the JWT of each registered account fresh: refreshes shortly before the
+// token's `exp`, shares one refresh between concurrent callers and holds
+// requests back while it runs.
+
+export type TokenEvent =
+    | { type: 'refreshed'; address: string; expiresAt: number }
+    | { type: 'refresh_failed'; address: string; error: Error; retryInMs: number };
+
+export interface TokenManagerOptions {
+    // Refresh this long before the token expires
+    refreshMarginMs?: number;
+    // First delay before retrying a failed refresh, doubled on each failure
+    retryDelayMs?: number;
+}
+
+interface Session {
+    account: ParadexAccount;
+    expiresAt: number;
+    failures: number;
+    timer?: ReturnType<typeof setTimeout>;
+    refreshing?: Promise<string>;
+}
+
+// Used when a token carries no readable `exp`, Paradex tokens live about 5 minutes
+const FALLBACK_LIFETIME_MS = 3 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+// Account -> manager, so the REST helpers can find the manager of whichever account they serve
+const managers = new WeakMap<ParadexAccount, TokenManager>();
+
+export function tokenManagerFor(account: ParadexAccount): TokenManager | undefined {
+    return managers.get(account);
+}
+
+// Expiry of a JWT in ms, read from the unverified payload
+export function decodeJwtExpiry(token: string): number | undefined {
+    const payload = token.split('.')[1];
+    if (!payload) return undefined;
+    try {
+        const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        return typeof exp === 'number' ? exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export class TokenManager {
+    private readonly login: (account: ParadexAccount) => Promise<string>;
+    private readonly refreshMarginMs: number;
+    private readonly retryDelayMs: number;
+    private sessions = new Map<string, Session>();
+    private listeners = new Set<(event: TokenEvent) => void>();
+
+    // `login` signs a fresh /auth request for the account and returns the new JWT
+    constructor(login: (account: ParadexAccount) => Promise<string>, options: TokenManagerOptions = {}) {
+        this.login = login;
+        this.refreshMarginMs = options.refreshMarginMs ?? 30 * 1000;
+        this.retryDelayMs = options.retryDelayMs ?? 5 * 1000;
+    }
+
+    // Authenticates the account (unless it already holds a valid token) and keeps it refreshed
+    async register(account: ParadexAccount): Promise<string> {
+        const existing = this.sessions.get(account.address);
+        if (existing && existing.account !== account) {
+            throw new Error(`Account ${account.address} is already registered`);
+        }
+
+        managers.set(account, this);
+        const session: Session = existing ?? { account, expiresAt: 0, failures: 0 };
+        this.sessions.set(account.address, session);
+
+        const expiresAt = account.jwtToken ? decodeJwtExpiry(account.jwtToken) : undefined;
+        if (account.jwtToken && expiresAt !== undefined && expiresAt - Date.now() > this.refreshMarginMs) {
+            session.expiresAt = expiresAt;
+            this.schedule(session);
+            return account.jwtToken;
+        }
+        return this.refresh(account);
+    }
+
+    unregister(account: ParadexAccount) {
+        const session = this.sessions.get(account.address);
+        if (session?.account !== account) return;
+        clearTimeout(session.timer);
+        this.sessions.delete(account.address);
+        managers.delete(account);
+    }
+
+    // Resolves once the account holds a usable token, waiting for a refresh that is under way
+    async ready(account: ParadexAccount): Promise<void> {
+        const session = this.sessions.get(account.address);
+        if (!session) return;
+        if (session.refreshing) {
+            await session.refreshing.catch(() => undefined);
+        } else if (Date.now() >= session.expiresAt) {
+            await this.refresh(account).catch(() => undefined);
+        }
+    }
+
+    // Concurrent callers share the refresh already in flight
+    refresh(account: ParadexAccount): Promise<string> {
+        const session = this.sessions.get(account.address);
+        if (!session) {
+            return Promise.reject(new Error(`Account ${account.address} is not registered`));
+        }
+        session.refreshing ??= this.runRefresh(session).finally(() => {
+            session.refreshing = undefined;
+        });
+        return session.refreshing;
+    }
+
+    subscribe(listener: (event: TokenEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    stop() {
+        for (const session of this.sessions.values()) {
+            clearTimeout(session.timer);
+            managers.delete(session.account);
+        }
+        this.sessions.clear();
+        this.listeners.clear();
+    }
+
+    private async runRefresh(session: Session): Promise<string> {
+        clearTimeout(session.timer);
+        const { account } = session;
+        try {
+            const token = await this.login(account);
+            account.jwtToken = token;
+            session.expiresAt = decodeJwtExpiry(token) ?? Date.now() + FALLBACK_LIFETIME_MS;
+            session.failures = 0;
+            this.schedule(session);
+            this.emit({ type: 'refreshed', address: account.address, expiresAt: session.expiresAt });
+            return token;
+        } catch (error) {
+            session.failures++;
+            const retryInMs = Math.min(this.retryDelayMs * 2 ** (session.failures - 1), MAX_RETRY_DELAY_MS);
+            console.error(`Token refresh for ${account.address} failed, retrying in ${retryInMs}ms:`, error);
+            if (this.sessions.get(account.address) === session) {
+                session.timer = setTimeout(() => void this.refresh(account).catch(() => undefined), retryInMs);
+            }
+            this.emit({
+                type: 'refresh_failed',
+                address: account.address,
+                error: error instanceof Error ? error : new Error(String(error)),
+                retryInMs,
+            });
+            throw error;
+        }
+    }
+
+    private schedule(session: Session) {
+        clearTimeout(session.timer);
+        // The floor stops a token shorter-lived than the margin from refreshing in a tight loop
+        const delay = Math.max(1000, session.expiresAt - this.refreshMarginMs - Date.now());
+        session.timer = setTimeout(() => void this.refresh(session.account).catch(() => undefined), delay);
+    }
+
+    private emit(event: TokenEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Token listener failed:', error);
+            }
+        }
+    }
+}
+
+// Tells the agent when an account can no longer authenticate
+export function createTokenInput(manager: TokenManager) {
+    return input({
+        schema: z.object({
+            event: z.string(),
+            address: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return manager.subscribe((event) => {
+                if (event.type !== 'refresh_failed') return;
+                send(cli.contexts!.cli, { user: "admin" }, {
+                    event: event.type,
+                    address: event.address,
+                    text: `Auth refresh failed for account ${event.address}: ${event.error.message}. ` +
+                        `Retrying in ${Math.round(event.retryInMs / 1000)}s, requests may fail until it succeeds.`,
+                });
+            });
+        },
+    });
+}
@@ -0,0 +1,398 @@
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import type { CandleResolution, ParadexConfig } from "./types";
+import { candleSchema, type Candle, type FundingData } from "./schemas";
+import { evaluateMarket, FUNDING_LOOKBACK_MS } from "./analysis";
+import { CANDLE_RESOLUTIONS, ESTIMATED_TAKER_FEE_RATE, getCandles, getFundingHistory } from "./paradex";
+
+// Replays recorded candles and funding rates through the live recommendation and
+// sizing rules (analysis.ts). Decisions are taken on a candle's close and filled
+// at the next open, stops fill inside the candle that reaches them.
+//
+//   bun run backtest --candles fixtures/backtest/ETH-USD-PERP-60m.csv --funding fixtures/backtest/ETH-USD-PERP-funding.csv
+//   bun run backtest record --market ETH-USD-PERP --resolution 60 --days 60
+
+export interface BacktestOptions {
+    resolution: CandleResolution;
+    initialCapital: number;
+    // Charged on the notional of every fill
+    feeRate: number;
+    // Fills are moved this far against the order from the candle price
+    slippageBps: number;
+    // Candles each decision is computed over, like PARADEX_ANALYSIS_CANDLES
+    window: number;
+}
+
+export interface BacktestTrade {
+    side: 'LONG' | 'SHORT';
+    size: number;
+    entryTime: number;
+    entryPrice: number;
+    exitTime: number;
+    exitPrice: number;
+    fees: number;
+    // Funding received, negative when paid
+    funding: number;
+    // Net of fees and funding
+    pnl: number;
+    exitReason: 'signal' | 'stop' | 'end';
+}
+
+export interface BacktestResult {
+    trades: BacktestTrade[];
+    equityCurve: Array<{ time: number; equity: number }>;
+    metrics: {
+        startEquity: number;
+        endEquity: number;
+        totalReturn: number;
+        // Annualized from per-candle returns, 365-day year
+        sharpe: number;
+        maxDrawdown: number;
+        winRate: number;
+        trades: number;
+        fees: number;
+        funding: number;
+    };
+}
+
+interface OpenPosition {
+    direction: 1 | -1;
+    size: number;
+    entryTime: number;
+    entryPrice: number;
+    stopPrice: number;
+    fees: number;
+    funding: number;
+}
+
+const BPS = 10000;
+const FUNDING_PERIOD_MS = 8 * 60 * 60 * 1000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+    resolution: 60,
+    initialCapital: 10000,
+    feeRate: ESTIMATED_TAKER_FEE_RATE,
+    slippageBps: 5,
+    window: 200,
+};
+
+export function runBacktest(
+    candles: Candle[],
+    funding: FundingData[],
+    overrides: Partial<BacktestOptions> = {},
+): BacktestResult {
+    const options = { ...DEFAULT_BACKTEST_OPTIONS, ...overrides };
+    if (candles.length <= options.window) {
+        throw new Error(`A ${options.window}-candle window needs more than ${options.window} candles, got ${candles.length}`);
+    }
+
+    const candleMs = options.resolution * 60 * 1000;
+    const trades: BacktestTrade[] = [];
+    const equityCurve: BacktestResult['equityCurve'] = [];
+    let cash = options.initialCapital;
+    let position: OpenPosition | undefined;
+    let pending: { direction: 1 | -1; notional: number; stopLossPercent: number } | undefined;
+    let fundingStart = 0;
+    let fundingEnd = 0;
+
+    const fill = (price: number, direction: 1 | -1) => price * (1 + direction * options.slippageBps / BPS);
+
+    const close = (price: number, time: number, reason: BacktestTrade['exitReason']) => {
+        const open = position!;
+        const exitPrice = fill(price, open.direction === 1 ? -1 : 1);
+        const fee = exitPrice * open.size * options.feeRate;
+        const gross = (exitPrice - open.entryPrice) * open.size * open.direction;
+        cash += gross - fee;
+        trades.push({
+            side: open.direction === 1 ? 'LONG' : 'SHORT',
+            size: open.size,
+            entryTime: open.entryTime,
+            entryPrice: open.entryPrice,
+            exitTime: time,
+            exitPrice,
+            fees: open.fees + fee,
+            funding: open.funding,
+            pnl: gross - open.fees - fee + open.funding,
+            exitReason: reason,
+        });
+        position = undefined;
+    };
+
+    for (let i = options.window - 1; i < candles.length; i++) {
+        const candle = candles[i];
+
+        if (pending) {
+            if (position && position.direction !== pending.direction) {
+                close(candle.open, candle.time, 'signal');
+            }
+            if (!position) {
+                const entryPrice = fill(candle.open, pending.direction);
+                const size = pending.notional / entryPrice;
+                const fee = pending.notional * options.feeRate;
+                cash -= fee;
+                position = {
+                    direction: pending.direction,
+                    size,
+                    entryTime: candle.time,
+                    entryPrice,
+                    stopPrice: entryPrice * (1 - pending.direction * pending.stopLossPercent / 100),
+                    fees: fee,
+                    funding: 0,
+                };
+            }
+            pending = undefined;
+        }
+
+        // A gap through the stop fills at the open
+        if (position) {
+            const { direction, stopPrice } = position;
+            if (direction === 1 && candle.low <= stopPrice) {
+                close(Math.min(candle.open, stopPrice), candle.time, 'stop');
+            } else if (direction === -1 && candle.high >= stopPrice) {
+                close(Math.max(candle.open, stopPrice), candle.time, 'stop');
+            }
+        }
+
+        while (fundingEnd < funding.length && funding[fundingEnd].created_at <= candle.time) fundingEnd++;
+        while (fundingStart < fundingEnd && funding[fundingStart].created_at <= candle.time - FUNDING_LOOKBACK_MS) fundingStart++;
+
+        // Longs pay positive funding, accrued over the candle at the latest known rate
+        if (position && fundingEnd > 0) {
+            const rate = Number(funding[fundingEnd - 1].funding_rate);
+            const payment = -position.direction * position.size * candle.close * rate * candleMs / FUNDING_PERIOD_MS;
+            position.funding += payment;
+            cash += payment;
+        }
+
+        const unrealized = position ? (candle.close - position.entryPrice) * position.size * position.direction : 0;
+        const equity = cash + unrealized;
+        equityCurve.push({ time: candle.time, equity });
+
+        if (i === candles.length - 1) break;
+        const analysis = evaluateMarket(
+            candles.slice(i - options.window + 1, i + 1),
+            funding.slice(fundingStart, fundingEnd),
+            { resolution: options.resolution, accountValue: equity },
+        );
+        const direction = analysis.recommendation === 'BUY' ? 1 : analysis.recommendation === 'SELL' ? -1 : undefined;
+        if (direction && position?.direction !== direction) {
+            pending = {
+                direction,
+                notional: analysis.positionLimits.recommendedPositionSize,
+                stopLossPercent: analysis.positionLimits.riskBand.stopLossPercent,
+            };
+        }
+    }
+
+    const lastCandle = candles[candles.length - 1];
+    if (position) {
+        close(lastCandle.close, lastCandle.time, 'end');
+        equityCurve[equityCurve.length - 1].equity = cash;
+    }
+
+    return { trades, equityCurve, metrics: backtestMetrics(trades, equityCurve, options.initialCapital, candleMs) };
+}
+
+function backtestMetrics(
+    trades: BacktestTrade[],
+    equityCurve: BacktestResult['equityCurve'],
+    initialCapital: number,
+    candleMs: number,
+): BacktestResult['metrics'] {
+    const returns = equityCurve.slice(1).map((point, i) => point.equity / equityCurve[i].equity - 1);
+    const mean = returns.reduce((total, r) => total + r, 0) / (returns.length || 1);
+    const deviation = Math.sqrt(returns.reduce((total, r) => total + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1));
+
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const { equity } of equityCurve) {
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    }
+
+    const endEquity = equityCurve.at(-1)?.equity ?? initialCapital;
+    return {
+        startEquity: initialCapital,
+        endEquity,
+        totalReturn: endEquity / initialCapital - 1,
+        sharpe: deviation > 0 ? mean / deviation * Math.sqrt(YEAR_MS / candleMs) : 0,
+        maxDrawdown,
+        winRate: trades.length ? trades.filter((trade) => trade.pnl > 0).length / trades.length : 0,
+        trades: trades.length,
+        fees: trades.reduce((total, trade) => total + trade.fees, 0),
+        funding: trades.reduce((total, trade) => total + trade.funding, 0),
+    };
+}
+
+export function formatBacktestReport(result: BacktestResult): string {
+    const { metrics } = result;
+    const iso = (time: number) => new Date(time).toISOString().slice(0, 16).replace('T', ' ');
+    const tradeLines = result.trades.map((trade) =>
+        `${iso(trade.entryTime)} -> ${iso(trade.exitTime)}  ${trade.side.padEnd(5)} ${trade.size.toFixed(4).padStart(10)} ` +
+        `@ ${trade.entryPrice.toFixed(2)} -> ${trade.exitPrice.toFixed(2)}  ` +
+        `fees ${trade.fees.toFixed(2)}  funding ${trade.funding.toFixed(2)}  PnL ${trade.pnl.toFixed(2)} (${trade.exitReason})`
+    );
+    return [
+        `Trades:`,
+        ...(tradeLines.length ? tradeLines : ['(none)']),
+        ``,
+        `Start equity:  ${metrics.startEquity.toFixed(2)}`,
+        `End equity:    ${metrics.endEquity.toFixed(2)}`,
+        `Total return:  ${(metrics.totalReturn * 100).toFixed(2)}%`,
+        `Sharpe ratio:  ${metrics.sharpe.toFixed(2)}`,
+        `Max drawdown:  ${(metrics.maxDrawdown * 100).toFixed(2)}%`,
+        `Win rate:      ${(metrics.winRate * 100).toFixed(1)}% of ${metrics.trades} trades`,
+        `Fees paid:     ${metrics.fees.toFixed(2)}`,
+        `Funding:       ${metrics.funding.toFixed(2)}`,
+    ].join('\n');
+}
+
+// Fixtures are CSV with a header row, or JSON: an array (or `results`) of
+// /markets/klines rows or of objects with the same fields
+const candleRowSchema = z.union([
+    candleSchema,
+    z.object({
+        time: z.coerce.number(),
+        open: z.coerce.number(),
+        high: z.coerce.number(),
+        low: z.coerce.number(),
+        close: z.coerce.number(),
+        volume: z.coerce.number(),
+    }),
+]);
+
+const fundingRowSchema = z.object({
+    market: z.string().default(''),
+    funding_rate: z.coerce.string(),
+    created_at: z.coerce.number(),
+}).passthrough();
+
+function parseCsv(text: string): Record<string, string>[] {
+    const [header, ...lines] = text.trim().split(/\r?\n/);
+    const columns = header.split(',').map((column) => column.trim());
+    return lines.filter((line) => line.trim()).map((line) => {
+        const values = line.split(',');
+        return Object.fromEntries(columns.map((column, i) => [column, values[i]?.trim() ?? '']));
+    });
+}
+
+async function readRows(file: string): Promise<unknown[]> {
+    const text = await fs.readFile(file, 'utf8');
+    if (file.endsWith('.csv')) {
+        return parseCsv(text);
+    }
+    const data = JSON.parse(text);
+    return Array.isArray(data) ? data : data.results;
+}
+
+export async function loadCandles(file: string): Promise<Candle[]> {
+    const rows = z.array(candleRowSchema).parse(await readRows(file));
+    return rows.sort((a, b) => a.time - b.time);
+}
+
+export async function loadFunding(file: string): Promise<FundingData[]> {
+    const rows = z.array(fundingRowSchema).parse(await readRows(file));
+    return rows.sort((a, b) => a.created_at - b.created_at);
+}
+
+// Records candles and one funding rate per 8h period from the API into CSV fixtures
+async function recordFixtures(apiBaseUrl: string, market: string, resolution: CandleResolution, days: number, outDir: string) {
+    const config: ParadexConfig = { apiBaseUrl, starknet: { chainId: '' } };
+    const candleMs = resolution * 60 * 1000;
+    const endAt = Math.floor(Date.now() / candleMs) * candleMs;
+    const startAt = endAt - days * 24 * 60 * 60 * 1000;
+
+    const candles = new Map<number, Candle>();
+    // Paradex caps one klines response, so fetch in chunks
+    for (let from = startAt; from < endAt; from += 500 * candleMs) {
+        for (const candle of await getCandles(config, market, { resolution, startAt: from, endAt: Math.min(from + 500 * candleMs, endAt) })) {
+            candles.set(candle.time, candle);
+        }
+    }
+
+    const funding: FundingData[] = [];
+    for (let at = startAt; at <= endAt; at += FUNDING_PERIOD_MS) {
+        const [latest] = (await getFundingHistory(config, market, { startAt: at - FUNDING_PERIOD_MS, endAt: at, pageSize: 1 })).slice(-1);
+        if (latest) funding.push({ ...latest, created_at: at });
+    }
+
+    await fs.mkdir(outDir, { recursive: true });
+    const candleFile = path.join(outDir, `${market}-${resolution}m.csv`);
+    const fundingFile = path.join(outDir, `${market}-funding.csv`);
+    await fs.writeFile(candleFile, ['time,open,high,low,close,volume',
+        ...[...candles.values()].sort((a, b) => a.time - b.time)
+            .map((c) => [c.time, c.open, c.high, c.low, c.close, c.volume].join(','))].join('\n') + '\n');
+    await fs.writeFile(fundingFile, ['created_at,market,funding_rate',
+        ...funding.map((f) => [f.created_at, f.market, f.funding_rate].join(','))].join('\n') + '\n');
+    console.log(`Recorded ${candles.size} candles to ${candleFile} and ${funding.length} funding rates to ${fundingFile}`);
+}
+
+function parseResolution(value: string | undefined): CandleResolution {
+    const resolution = Number(value ?? DEFAULT_BACKTEST_OPTIONS.resolution) as CandleResolution;
+    if (!CANDLE_RESOLUTIONS.includes(resolution)) {
+        throw new Error(`--resolution must be one of ${CANDLE_RESOLUTIONS.join(', ')} (minutes)`);
+    }
+    return resolution;
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        args: process.argv.slice(2),
+        allowPositionals: true,
+        options: {
+            candles: { type: 'string' },
+            funding: { type: 'string' },
+            resolution: { type: 'string' },
+            capital: { type: 'string' },
+            fee: { type: 'string' },
+            'slippage-bps': { type: 'string' },
+            window: { type: 'string' },
+            out: { type: 'string' },
+            market: { type: 'string' },
+            days: { type: 'string' },
+            api: { type: 'string' },
+        },
+    });
+
+    if (positionals[0] === 'record') {
+        if (!values.market) throw new Error('record needs --market, e.g. --market ETH-USD-PERP');
+        await recordFixtures(
+            values.api ?? process.env.PARADEX_BASE_URL ?? 'https://api.testnet.paradex.trade/v1',
+            values.market,
+            parseResolution(values.resolution),
+            Number(values.days ?? 60),
+            values.out ?? path.join('fixtures', 'backtest'),
+        );
+        return;
+    }
+
+    if (!values.candles) {
+        throw new Error('Usage: bun run backtest --candles <file.csv|json> [--funding <file>] [--resolution 60] ' +
+            '[--capital 10000] [--fee 0.0003] [--slippage-bps 5] [--window 200] [--out result.json]');
+    }
+    const candles = await loadCandles(values.candles);
+    const funding = values.funding ? await loadFunding(values.funding) : [];
+    const result = runBacktest(candles, funding, {
+        resolution: parseResolution(values.resolution),
+        ...(values.capital && { initialCapital: Number(values.capital) }),
+        ...(values.fee && { feeRate: Number(values.fee) }),
+        ...(values['slippage-bps'] && { slippageBps: Number(values['slippage-bps']) }),
+        ...(values.window && { window: Number(values.window) }),
+    });
+
+    console.log(formatBacktestReport(result));
+    if (values.out) {
+        await fs.writeFile(values.out, JSON.stringify(result, null, 2));
+        console.log(`\nEquity curve and trade log written to ${values.out}`);
+    }
+}
+
+if (import.meta.main) {
+    main().catch((err) => {
+        console.error(err instanceof Error ? err.message : err);
+        process.exit(1);
+    });
+}
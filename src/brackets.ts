@@ -0,0 +1,197 @@
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import BigNumber from "bignumber.js";
+import { z } from "zod";
+import type { OrderDetails } from "./types";
+import type { ParadexOrder } from "./schemas";
+import type { ParadexClient, BatchOrderResult } from "./paradex";
+import type { ParadexFeed } from "./feed";
+import { journalBatchResults } from "./memory";
+
+// Stop-loss and take-profit legs waiting for their entry order. Reduce-only legs
+// sent before the entry has filled are rejected or left with no position to
+// close, so they are placed once the entry is closed, sized to what it filled.
+// An entry closed without a fill drops its legs. Kept in memory only: after a
+// restart a resting entry loses its legs.
+
+export interface BracketLeg {
+    label: string;
+    order: OrderDetails;
+}
+
+export interface PendingBracket {
+    entryOrderId: string;
+    account: string;
+    market: string;
+    originalRequest: string;
+    createdAt: number;
+    // The legs for the average fill price and the filled size of the entry
+    build: (entryPrice: number, filledSize: string) => BracketLeg[];
+}
+
+export type BracketEvent =
+    | { type: 'placed'; bracket: PendingBracket; legs: BracketLeg[]; results: BatchOrderResult[] }
+    | { type: 'dropped'; bracket: PendingBracket; reason: string }
+    | { type: 'error'; bracket: PendingBracket; error: string };
+
+const DEFAULT_POLL_SECONDS = 5;
+
+// Size the entry filled, from its size and what is left of it
+export function filledSize(order: Pick<ParadexOrder, 'size' | 'remaining_size'>): BigNumber {
+    const filled = new BigNumber(order.size).minus(order.remaining_size || 0);
+    return filled.isGreaterThan(0) ? filled : new BigNumber(0);
+}
+
+export function formatLegResults(legs: BracketLeg[], results: BatchOrderResult[]): string {
+    return legs.map((leg, i) =>
+        `• ${leg.label}: ${leg.order.side} ${leg.order.size} @ trigger ${leg.order.triggerPrice} - ` +
+        (results[i]?.error ? `FAILED (${results[i].error})` : `Order ID ${results[i]?.orderId}`)
+    ).join('\n');
+}
+
+export interface BracketKeeperOptions {
+    // Order updates settle an entry right away, the poll catches the rest
+    feed?: ParadexFeed;
+    pollSeconds?: number;
+}
+
+export class BracketKeeper {
+    private readonly options: BracketKeeperOptions;
+    private pending = new Map<string, { client: ParadexClient; bracket: PendingBracket }>();
+    private listeners = new Set<(event: BracketEvent) => void>();
+    private settling = new Set<string>();
+    private timer?: ReturnType<typeof setInterval>;
+    private unsubscribe?: () => void;
+
+    constructor(options: BracketKeeperOptions = {}) {
+        this.options = options;
+        this.unsubscribe = options.feed?.subscribe((event) => {
+            if (event.type === 'order' && event.data.status === 'CLOSED' && this.pending.has(event.data.id)) {
+                void this.settle(event.data.id, event.data);
+            }
+        });
+    }
+
+    // Holds the legs until the entry closes, or places them now when it already has
+    async hold(client: ParadexClient, bracket: PendingBracket, entry?: ParadexOrder): Promise<BracketEvent | undefined> {
+        this.pending.set(bracket.entryOrderId, { client, bracket });
+        if (entry?.status === 'CLOSED') {
+            return this.settle(bracket.entryOrderId, entry);
+        }
+        this.timer ??= setInterval(() => void this.poll(), (this.options.pollSeconds ?? DEFAULT_POLL_SECONDS) * 1000);
+        return undefined;
+    }
+
+    list(): PendingBracket[] {
+        return [...this.pending.values()].map(({ bracket }) => bracket);
+    }
+
+    subscribe(listener: (event: BracketEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    close() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.unsubscribe?.();
+    }
+
+    private async poll() {
+        for (const [orderId, { client }] of this.pending) {
+            if (this.settling.has(orderId)) continue;
+            try {
+                const order = await client.getOrder(orderId);
+                if (order.status === 'CLOSED') {
+                    await this.settle(orderId, order);
+                }
+            } catch (error) {
+                console.error(`Could not check bracket entry ${orderId}:`, error);
+            }
+        }
+        if (!this.pending.size) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async settle(orderId: string, entry: ParadexOrder): Promise<BracketEvent | undefined> {
+        const held = this.pending.get(orderId);
+        if (!held || this.settling.has(orderId)) return undefined;
+        this.settling.add(orderId);
+        const { client, bracket } = held;
+
+        let event: BracketEvent;
+        try {
+            const size = filledSize(entry);
+            const entryPrice = Number(entry.avg_fill_price);
+            if (!size.isGreaterThan(0) || !(entryPrice > 0)) {
+                event = { type: 'dropped', bracket, reason: entry.cancel_reason || 'the entry closed without a fill' };
+            } else {
+                const legs = bracket.build(entryPrice, size.toString());
+                const results = await client.executeBatchOrders(legs.map((leg) => leg.order));
+                await Promise.all(legs.map((leg, i) =>
+                    journalBatchResults([leg.order], [results[i]], leg.label, bracket.originalRequest, client.account.name)));
+                event = { type: 'placed', bracket, legs, results };
+            }
+        } catch (error) {
+            console.error(`Bracket legs for ${orderId} failed:`, error);
+            event = { type: 'error', bracket, error: error instanceof Error ? error.message : String(error) };
+        } finally {
+            this.pending.delete(orderId);
+            this.settling.delete(orderId);
+        }
+        this.emit(event);
+        return event;
+    }
+
+    private emit(event: BracketEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Bracket listener failed:', error);
+            }
+        }
+    }
+}
+
+function describeEvent(event: BracketEvent): string {
+    const { bracket } = event;
+    const heading = `Bracket for ${bracket.market} entry ${bracket.entryOrderId} on ${bracket.account}`;
+    switch (event.type) {
+        case 'placed':
+            return `${heading} placed:\n${formatLegResults(event.legs, event.results)}`;
+        case 'dropped':
+            return `${heading} dropped: ${event.reason}`;
+        case 'error':
+            return `${heading} failed, the position has no stop-loss or take-profit: ${event.error}`;
+    }
+}
+
+// Tells the agent when held legs are placed, dropped or fail
+export function createBracketInput(keeper: BracketKeeper) {
+    return input({
+        schema: z.object({
+            orderId: z.string(),
+            event: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return keeper.subscribe((event) => {
+                send(cli.contexts!.cli, { user: "admin" }, {
+                    orderId: event.bracket.entryOrderId,
+                    event: event.type,
+                    text: describeEvent(event),
+                });
+            });
+        },
+    });
+}
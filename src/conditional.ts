@@ -0,0 +1,327 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { Market } from "./schemas";
+import type { ParadexFeed } from "./feed";
+import type { AlertCondition, AlertMetric, OrderRequest } from "./parser";
+import { METRIC_LABELS, formatMetric, metricValue, type MarketValues } from "./alerts";
+
+// Orders the agent holds and submits itself once every one of their conditions
+// holds: market levels (price, mark, funding, open interest) and/or a time.
+// Checked on a timer and on every markets_summary event from the feed. Pending
+// orders are kept in <dataDir>/conditional-orders.json and survive a restart.
+
+export interface MarketCondition {
+    type: 'market';
+    market: string;
+    metric: AlertMetric;
+    condition: 'above' | 'below';
+    threshold: number;
+}
+
+export interface TimeCondition {
+    type: 'time';
+    at: number;
+}
+
+export type OrderCondition = MarketCondition | TimeCondition;
+
+export type ConditionalAction =
+    | { kind: 'order'; order: OrderRequest }
+    // Closes a share of whatever position is open when the conditions hold
+    | { kind: 'close'; market: string; percent: number };
+
+export interface ConditionalOrderSpec {
+    account: string;
+    // 'crosses' is fixed to 'above' or 'below' from the value at creation
+    conditions: Array<TimeCondition | (Omit<MarketCondition, 'condition'> & { condition: AlertCondition })>;
+    action: ConditionalAction;
+    // The request the order was created from, journalled with the order
+    note?: string;
+}
+
+export interface ConditionalOrderRecord extends Omit<ConditionalOrderSpec, 'conditions'> {
+    id: string;
+    conditions: OrderCondition[];
+    createdAt: number;
+    status: 'pending' | 'submitted' | 'failed' | 'cancelled';
+    triggeredAt?: number;
+    orderId?: string;
+    // Outcome of the submission, the order or the error
+    result?: string;
+}
+
+export interface ConditionalSubmission {
+    orderId: string;
+    text: string;
+}
+
+export type ConditionalEvent =
+    | { type: 'submitted'; order: ConditionalOrderRecord }
+    | { type: 'failed'; order: ConditionalOrderRecord; error: string };
+
+export function formatCondition(condition: OrderCondition): string {
+    return condition.type === 'time'
+        ? `at ${new Date(condition.at).toISOString()}`
+        : `${condition.market} ${METRIC_LABELS[condition.metric]} ${condition.condition} ${formatMetric(condition.metric, condition.threshold)}`;
+}
+
+export function formatConditionalAction(action: ConditionalAction): string {
+    if (action.kind === 'close') {
+        return `close ${action.percent === 100 ? '' : `${action.percent}% of `}the ${action.market} position`;
+    }
+    const { order } = action;
+    const type = order.type ?? (order.price ? 'LIMIT' : 'MARKET');
+    return `${type} ${order.side} ${order.size ?? `$${order.notional} of`} ${order.market}` +
+        (order.price ? ` @ ${order.price}` : '') +
+        (order.triggerPrice ? ` trigger ${order.triggerPrice}` : '') +
+        (order.reduceOnly ? ' reduce-only' : '');
+}
+
+export function formatConditionalOrder(record: ConditionalOrderRecord): string {
+    const outcome = record.triggeredAt
+        ? `, triggered at ${new Date(record.triggeredAt).toISOString()}${record.result ? `: ${record.result}` : ''}`
+        : '';
+    return `• ${record.id} (${record.account}): ${formatConditionalAction(record.action)} when ` +
+        `${record.conditions.map(formatCondition).join(' and ')} [${record.status}${outcome}]`;
+}
+
+export interface ConditionalOrderManagerOptions {
+    filePath: string;
+    loadMarkets: () => Promise<Market[]>;
+    pollSeconds: number;
+    // Validates and places the order, throws when it is refused
+    submit: (record: ConditionalOrderRecord) => Promise<ConditionalSubmission>;
+    feed?: ParadexFeed;
+}
+
+export class ConditionalOrderManager {
+    private readonly options: ConditionalOrderManagerOptions;
+    private orders = new Map<string, ConditionalOrderRecord>();
+    private listeners = new Set<(event: ConditionalEvent) => void>();
+    // Latest values of every market, from the poll and the feed
+    private values = new Map<string, MarketValues>();
+    // Orders being submitted, so an update arriving meanwhile doesn't send them twice
+    private submitting = new Set<string>();
+    private nextId = 1;
+    private timer?: ReturnType<typeof setInterval>;
+    private unsubscribe?: () => void;
+    private polling = false;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(options: ConditionalOrderManagerOptions) {
+        this.options = options;
+    }
+
+    async load(): Promise<void> {
+        const content = await readFile(this.options.filePath, "utf8").catch(() => "");
+        const saved: ConditionalOrderRecord[] = content ? JSON.parse(content) : [];
+        for (const record of saved) {
+            this.orders.set(record.id, record);
+            this.nextId = Math.max(this.nextId, Number(record.id.split('-')[1]) + 1 || 0);
+        }
+    }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.poll(), this.options.pollSeconds * 1000);
+        this.unsubscribe = this.options.feed?.subscribe((event) => {
+            if (event.type === 'markets_summary') {
+                this.values.set(event.market, { ...this.values.get(event.market), ...event.data });
+                this.evaluate(event.market);
+            }
+        });
+        void this.poll();
+    }
+
+    stop() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.unsubscribe?.();
+    }
+
+    subscribe(listener: (event: ConditionalEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    list(): ConditionalOrderRecord[] {
+        return [...this.orders.values()];
+    }
+
+    async create(spec: ConditionalOrderSpec, now = Date.now()): Promise<ConditionalOrderRecord> {
+        if (!spec.conditions.length) {
+            throw new Error('A conditional order needs at least one condition');
+        }
+        const markets = await this.options.loadMarkets();
+        const conditions = spec.conditions.map((condition): OrderCondition => {
+            if (condition.type === 'time') {
+                if (condition.at <= now) {
+                    throw new Error(`${new Date(condition.at).toISOString()} has already passed`);
+                }
+                return condition;
+            }
+            if (!Number.isFinite(condition.threshold)) {
+                throw new Error(`The ${condition.market} ${METRIC_LABELS[condition.metric]} threshold must be a number`);
+            }
+            const market = markets.find((m) => m.symbol === condition.market);
+            if (!market) {
+                throw new Error(`Market ${condition.market} is not listed on Paradex`);
+            }
+            if (condition.condition !== 'crosses') {
+                return { ...condition, condition: condition.condition };
+            }
+            const current = metricValue(condition.metric, market);
+            if (current === undefined) {
+                throw new Error(`No ${METRIC_LABELS[condition.metric]} for ${condition.market} to tell which way it has to cross`);
+            }
+            return { ...condition, condition: current < condition.threshold ? 'above' : 'below' };
+        });
+
+        const record: ConditionalOrderRecord = {
+            id: `cond-${this.nextId++}`,
+            account: spec.account,
+            conditions,
+            action: spec.action,
+            note: spec.note,
+            createdAt: now,
+            status: 'pending',
+        };
+        this.orders.set(record.id, record);
+        await this.save();
+        return record;
+    }
+
+    async cancel(id: string): Promise<ConditionalOrderRecord> {
+        const record = this.orders.get(id);
+        if (!record) {
+            throw new Error(`No conditional order ${id}`);
+        }
+        if (this.submitting.has(id)) {
+            throw new Error(`Conditional order ${id} is being submitted right now`);
+        }
+        if (record.status !== 'pending') {
+            throw new Error(`Conditional order ${id} is already ${record.status}`);
+        }
+        record.status = 'cancelled';
+        await this.save();
+        return record;
+    }
+
+    // Whether every condition of the order holds, a market without data yet holds nothing
+    isMet(record: ConditionalOrderRecord, now = Date.now()): boolean {
+        return record.conditions.every((condition) => {
+            if (condition.type === 'time') return now >= condition.at;
+            const data = this.values.get(condition.market);
+            const value = data && metricValue(condition.metric, data);
+            if (value === undefined) return false;
+            return condition.condition === 'above' ? value >= condition.threshold : value <= condition.threshold;
+        });
+    }
+
+    // Refreshes every market and checks the pending orders, one poll at a time
+    async poll(): Promise<void> {
+        if (this.polling || !this.list().some((record) => record.status === 'pending')) return;
+        this.polling = true;
+        try {
+            const markets = await this.options.loadMarkets();
+            for (const market of markets) {
+                this.values.set(market.symbol, market);
+            }
+        } catch (error) {
+            // Time conditions don't need market data
+            console.error('Conditional order check failed:', error);
+        } finally {
+            this.polling = false;
+        }
+        this.evaluate();
+    }
+
+    // Submits the pending orders whose conditions all hold, only those watching the
+    // market when one market changed
+    private evaluate(market?: string) {
+        const now = Date.now();
+        for (const record of this.orders.values()) {
+            if (record.status !== 'pending' || this.submitting.has(record.id)) continue;
+            if (market && !record.conditions.some((c) => c.type === 'market' && c.market === market)) continue;
+            if (this.isMet(record, now)) {
+                void this.submit(record);
+            }
+        }
+    }
+
+    private async submit(record: ConditionalOrderRecord) {
+        this.submitting.add(record.id);
+        record.triggeredAt = Date.now();
+        try {
+            const submission = await this.options.submit(record);
+            record.status = 'submitted';
+            record.orderId = submission.orderId;
+            record.result = submission.text;
+            this.emit({ type: 'submitted', order: { ...record } });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Conditional order ${record.id} failed:`, error);
+            record.status = 'failed';
+            record.result = message;
+            this.emit({ type: 'failed', order: { ...record }, error: message });
+        } finally {
+            this.submitting.delete(record.id);
+        }
+        await this.save();
+    }
+
+    private save(): Promise<void> {
+        const content = JSON.stringify(this.list(), null, 2);
+        this.writes = this.writes.then(async () => {
+            await mkdir(path.dirname(this.options.filePath), { recursive: true });
+            const temporary = `${this.options.filePath}.tmp`;
+            await writeFile(temporary, content);
+            await rename(temporary, this.options.filePath);
+        }).catch((error) => console.error('Failed to save conditional orders:', error));
+        return this.writes;
+    }
+
+    private emit(event: ConditionalEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Conditional order listener failed:', error);
+            }
+        }
+    }
+}
+
+function describeEvent(event: ConditionalEvent): string {
+    const { order } = event;
+    const heading = `Conditional order ${order.id} triggered (${order.conditions.map(formatCondition).join(' and ')})`;
+    return event.type === 'submitted'
+        ? `${heading} on ${order.account}: ${order.result}`
+        : `${heading} but ${formatConditionalAction(order.action)} on ${order.account} failed: ${event.error}`;
+}
+
+// Pushes submitted and failed conditional orders into the agent
+export function createConditionalInput(manager: ConditionalOrderManager) {
+    return input({
+        schema: z.object({
+            id: z.string(),
+            status: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return manager.subscribe((event) => {
+                send(cli.contexts!.cli, { user: "admin" }, { id: event.order.id, status: event.type, text: describeEvent(event) });
+            });
+        },
+    });
+}
@@ -3,18 +3,71 @@ import { z } from "zod";
 import dotenv from "dotenv";
 import path from "path";
 import { fileURLToPath } from "url";
-import { ParadexClient } from "./paradex";
-import type { ParadexConfig } from "./types";
+import { shortString } from "starknet";
+import { authenticate, CANDLE_RESOLUTIONS, ParadexClient } from "./paradex";
+import { TokenManager } from "./auth";
+import { deriveWebSocketUrl } from "./feed";
+import type { CandleResolution, ParadexConfig } from "./types";
 
 const container = createContainer();
 
+// The mock server runs on this machine and has no WebSocket endpoint
+function isLocalUrl(url: string): boolean {
+    try {
+        return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+    } catch {
+        return false;
+    }
+}
+
 // Register configuration
 container.singleton("config", () => {
     const envSchema = z.object({
         PARADEX_ACCOUNT_ADDRESS: z.string().min(1),
         PARADEX_PRIVATE_KEY: z.string().min(1),
+        PARADEX_ACCOUNT_NAME: z.string().min(1).default("main"),
+        PARADEX_ACCOUNTS: z.string().default(""),
         PARADEX_BASE_URL: z.string().min(1),
         PARADEX_CHAIN_ID: z.string().min(1),
+        PARADEX_PAPER_TRADING: z
+            .preprocess((val) => val === "1" || val === "true", z.boolean())
+            .default(false),
+        PARADEX_PAPER_BALANCE: z.coerce.number().positive().default(10000),
+        // Unset: on, except against a local mock server or when paper trading
+        PARADEX_WS_ENABLED: z
+            .preprocess((val) => val === undefined || val === "" ? undefined : val !== "0" && val !== "false", z.boolean().optional()),
+        PARADEX_WS_URL: z.string().optional(),
+        PARADEX_WS_MARKETS: z.string().default("BTC-USD-PERP,ETH-USD-PERP"),
+        PARADEX_FEED_PRICE_MOVE_PERCENT: z.coerce.number().positive().default(1),
+        PARADEX_DATA_DIR: z.string().default("data"),
+        PARADEX_RISK_MAX_ORDER_NOTIONAL: z.coerce.number().positive().default(10000),
+        PARADEX_RISK_MAX_POSITION_NOTIONAL: z.coerce.number().positive().default(25000),
+        PARADEX_RISK_MAX_LEVERAGE: z.coerce.number().positive().default(5),
+        PARADEX_RISK_MAX_DAILY_LOSS: z.coerce.number().positive().default(1000),
+        PARADEX_RISK_ALLOWED_MARKETS: z.string().default(""),
+        PARADEX_CONFIRM_MIN_NOTIONAL: z.coerce.number().nonnegative().default(1000),
+        PARADEX_CONFIRM_TTL_SECONDS: z.coerce.number().positive().default(120),
+        PARADEX_MAX_SLIPPAGE_BPS: z.coerce.number().positive().default(50),
+        PARADEX_SLIPPAGE_ACTION: z.enum(["limit", "reject"]).default("limit"),
+        PARADEX_ANALYSIS_RESOLUTION: z.coerce.number()
+            .refine((val): val is CandleResolution => CANDLE_RESOLUTIONS.includes(val as CandleResolution), {
+                message: `Must be one of ${CANDLE_RESOLUTIONS.join(", ")} (minutes)`,
+            })
+            .default(60),
+        PARADEX_ANALYSIS_CANDLES: z.coerce.number().int().min(50).max(1000).default(200),
+        PARADEX_MARGIN_MONITOR_ENABLED: z
+            .preprocess((val) => val !== "0" && val !== "false", z.boolean()),
+        PARADEX_MARGIN_POLL_SECONDS: z.coerce.number().min(5).default(30),
+        PARADEX_MARGIN_WARNING_RATIO: z.coerce.number().positive().max(1).default(0.5),
+        PARADEX_MARGIN_CRITICAL_RATIO: z.coerce.number().positive().max(1).default(0.8),
+        PARADEX_LIQUIDATION_WARNING_PERCENT: z.coerce.number().positive().default(15),
+        PARADEX_LIQUIDATION_CRITICAL_PERCENT: z.coerce.number().positive().default(5),
+        PARADEX_MARGIN_AUTO_REDUCE: z
+            .preprocess((val) => val === "1" || val === "true", z.boolean())
+            .default(false),
+        PARADEX_MARGIN_AUTO_REDUCE_PERCENT: z.coerce.number().positive().max(100).default(50),
+        PARADEX_ALERT_POLL_SECONDS: z.coerce.number().min(5).default(30),
+        PARADEX_CONDITIONAL_POLL_SECONDS: z.coerce.number().min(1).default(10),
         // ANTHROPIC_API_KEY: z.string().min(1),
         // GROQ_API_KEY: z.string().min(1),
         // OPENAI_API_KEY: z.string().min(1),
@@ -39,21 +92,112 @@ container.singleton("config", () => {
         throw new Error("Invalid environment variables");
     }
 
+    // Further accounts and subaccounts, e.g. PARADEX_ACCOUNTS=hedge reads PARADEX_HEDGE_ACCOUNT_ADDRESS,
+    // PARADEX_HEDGE_PRIVATE_KEY and the optional PARADEX_HEDGE_PARENT
+    const accountNames = result.data.PARADEX_ACCOUNTS.split(",").map((name) => name.trim()).filter(Boolean);
+    const extraAccounts = accountNames.map((name) => {
+        const prefix = `PARADEX_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+        const accountResult = z.object({
+            [`${prefix}_ACCOUNT_ADDRESS`]: z.string().min(1),
+            [`${prefix}_PRIVATE_KEY`]: z.string().min(1),
+            [`${prefix}_PARENT`]: z.string().optional(),
+        }).safeParse(process.env);
+
+        if (!accountResult.success) {
+            console.error(
+                `❌ Invalid environment variables for account ${name}:`,
+                accountResult.error.format(),
+            );
+            throw new Error("Invalid environment variables");
+        }
+        return {
+            name,
+            address: accountResult.data[`${prefix}_ACCOUNT_ADDRESS`]!,
+            privateKey: accountResult.data[`${prefix}_PRIVATE_KEY`]!,
+            parent: accountResult.data[`${prefix}_PARENT`],
+        };
+    });
+
+    const accounts = [
+        {
+            name: result.data.PARADEX_ACCOUNT_NAME,
+            address: result.data.PARADEX_ACCOUNT_ADDRESS,
+            privateKey: result.data.PARADEX_PRIVATE_KEY,
+        },
+        ...extraAccounts,
+    ];
+    const duplicate = accounts.find((account, i) =>
+        accounts.findIndex((other) => other.name.toLowerCase() === account.name.toLowerCase()) !== i);
+    if (duplicate) {
+        throw new Error(`Account name ${duplicate.name} is configured twice`);
+    }
+
     return {
         apiBaseUrl: result.data.PARADEX_BASE_URL,
         starknet: {
             chainId: result.data.PARADEX_CHAIN_ID
+        },
+        paperTrading: {
+            enabled: result.data.PARADEX_PAPER_TRADING,
+            initialBalance: result.data.PARADEX_PAPER_BALANCE
+        },
+        dataDir: path.resolve(projectRoot, result.data.PARADEX_DATA_DIR),
+        accounts,
+        risk: {
+            maxOrderNotional: result.data.PARADEX_RISK_MAX_ORDER_NOTIONAL,
+            maxPositionNotional: result.data.PARADEX_RISK_MAX_POSITION_NOTIONAL,
+            maxLeverage: result.data.PARADEX_RISK_MAX_LEVERAGE,
+            maxDailyLoss: result.data.PARADEX_RISK_MAX_DAILY_LOSS,
+            allowedMarkets: result.data.PARADEX_RISK_ALLOWED_MARKETS.split(",").map((m) => m.trim()).filter(Boolean)
+        },
+        confirmation: {
+            minNotional: result.data.PARADEX_CONFIRM_MIN_NOTIONAL,
+            ttlSeconds: result.data.PARADEX_CONFIRM_TTL_SECONDS
+        },
+        slippage: {
+            maxBps: result.data.PARADEX_MAX_SLIPPAGE_BPS,
+            onExceed: result.data.PARADEX_SLIPPAGE_ACTION
+        },
+        analysis: {
+            resolution: result.data.PARADEX_ANALYSIS_RESOLUTION as CandleResolution,
+            candles: result.data.PARADEX_ANALYSIS_CANDLES
+        },
+        margin: {
+            enabled: result.data.PARADEX_MARGIN_MONITOR_ENABLED,
+            pollSeconds: result.data.PARADEX_MARGIN_POLL_SECONDS,
+            warningRatio: result.data.PARADEX_MARGIN_WARNING_RATIO,
+            criticalRatio: result.data.PARADEX_MARGIN_CRITICAL_RATIO,
+            liquidationWarningPercent: result.data.PARADEX_LIQUIDATION_WARNING_PERCENT,
+            liquidationCriticalPercent: result.data.PARADEX_LIQUIDATION_CRITICAL_PERCENT,
+            autoReduce: result.data.PARADEX_MARGIN_AUTO_REDUCE,
+            autoReducePercent: result.data.PARADEX_MARGIN_AUTO_REDUCE_PERCENT
+        },
+        alerts: {
+            pollSeconds: result.data.PARADEX_ALERT_POLL_SECONDS
+        },
+        conditionalOrders: {
+            pollSeconds: result.data.PARADEX_CONDITIONAL_POLL_SECONDS
+        },
+        feed: {
+            enabled: result.data.PARADEX_WS_ENABLED
+                ?? !(result.data.PARADEX_PAPER_TRADING || isLocalUrl(result.data.PARADEX_BASE_URL)),
+            url: result.data.PARADEX_WS_URL ?? deriveWebSocketUrl(result.data.PARADEX_BASE_URL),
+            markets: result.data.PARADEX_WS_MARKETS.split(",").map((m) => m.trim()).filter(Boolean),
+            priceMovePercent: result.data.PARADEX_FEED_PRICE_MOVE_PERCENT
         }
     };
 });
 
-// Register ParadexClient
+// Register one ParadexClient per configured account, the default account first.
+// The clients share a token manager, call connect() on each before use.
 container.singleton("paradex", (container) => {
-    const config = container.resolve("config") as ParadexConfig;
-    return new ParadexClient(config, {
-        address: process.env.PARADEX_ACCOUNT_ADDRESS!,
-        privateKey: process.env.PARADEX_PRIVATE_KEY!
-    });
+    const env = container.resolve("config") as ParadexConfig;
+    const config: ParadexConfig = {
+        ...env,
+        starknet: { chainId: shortString.encodeShortString(env.starknet.chainId) },
+    };
+    const tokens = new TokenManager((account) => authenticate(config, account));
+    return (config.accounts ?? []).map((credentials) => new ParadexClient(config, { ...credentials }, tokens));
 });
 
 const env = container.resolve("config") as ParadexConfig;
@@ -0,0 +1,68 @@
+import { randomBytes } from "crypto";
+
+// One-time confirmation tokens for actions that need a human in the loop.
+// The action is captured as a closure and only runs when its token is redeemed.
+
+export type ConfirmationKind = 'order' | 'cancel' | 'batch';
+
+export interface PendingConfirmation<T> {
+    token: string;
+    kind: ConfirmationKind;
+    summary: string;
+    expiresAt: number;
+    execute: () => Promise<T>;
+}
+
+export class ConfirmationError extends Error {
+    readonly code: 'TOKEN_NOT_FOUND' | 'TOKEN_EXPIRED';
+
+    constructor(code: ConfirmationError['code'], message: string) {
+        super(message);
+        this.name = 'ConfirmationError';
+        this.code = code;
+    }
+}
+
+export class ConfirmationStore<T> {
+    private pending = new Map<string, PendingConfirmation<T>>();
+
+    constructor(private readonly ttlMs: number) {}
+
+    create(kind: ConfirmationKind, summary: string, execute: () => Promise<T>): PendingConfirmation<T> {
+        this.prune();
+        const confirmation: PendingConfirmation<T> = {
+            token: randomBytes(4).toString('hex').toUpperCase(),
+            kind,
+            summary,
+            expiresAt: Date.now() + this.ttlMs,
+            execute,
+        };
+        this.pending.set(confirmation.token, confirmation);
+        return confirmation;
+    }
+
+    // Removes the token whether or not it is still valid, a token is never redeemed twice
+    take(token: string): PendingConfirmation<T> {
+        const key = token.trim().toUpperCase();
+        const confirmation = this.pending.get(key);
+        this.pending.delete(key);
+
+        if (!confirmation) {
+            throw new ConfirmationError('TOKEN_NOT_FOUND', `No pending action for confirmation token ${key}`);
+        }
+        if (confirmation.expiresAt < Date.now()) {
+            throw new ConfirmationError('TOKEN_EXPIRED',
+                `Confirmation token ${key} expired at ${new Date(confirmation.expiresAt).toISOString()}, please submit the request again`);
+        }
+        return confirmation;
+    }
+
+    private prune() {
+        const now = Date.now();
+        for (const [token, confirmation] of this.pending) {
+            if (confirmation.expiresAt < now) {
+                this.pending.delete(token);
+            }
+        }
+    }
+}
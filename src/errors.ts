@@ -0,0 +1,87 @@
+// Errors returned by the Paradex API (or the paper exchange standing in for it),
+// carrying the API error code so callers can branch on it.
+
+export class ParadexApiError extends Error {
+    readonly code: string;
+    readonly status: number;
+
+    constructor(code: string, message: string, status: number) {
+        super(message);
+        this.name = 'ParadexApiError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+// 401/403: missing, expired or rejected credentials
+export class AuthError extends ParadexApiError {
+    constructor(code: string, message: string, status = 401) {
+        super(code, message, status);
+        this.name = 'AuthError';
+    }
+}
+
+export class RateLimitError extends ParadexApiError {
+    // How long Paradex asked us to wait, when it said so
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number) {
+        super('RATE_LIMIT_EXCEEDED', message, 429);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// A response didn't match its schema, `issues` lists each offending field as `path: problem`
+export class InvalidResponseError extends ParadexApiError {
+    readonly issues: string[];
+
+    constructor(path: string, issues: string[], status: number) {
+        super('INVALID_RESPONSE', `Unexpected response from ${path}: ${issues.slice(0, 5).join('; ')}` +
+            (issues.length > 5 ? ` (+${issues.length - 5} more)` : ''), status);
+        this.name = 'InvalidResponseError';
+        this.issues = issues;
+    }
+}
+
+// The exchange refused an order, `code` is the Paradex error code (e.g. NOT_ENOUGH_MARGIN)
+export class OrderRejectedError extends ParadexApiError {
+    constructor(code: string, message: string, status = 400) {
+        super(code, message, status);
+        this.name = 'OrderRejectedError';
+    }
+}
+
+export class OrderNotFoundError extends ParadexApiError {
+    readonly orderId: string;
+
+    constructor(orderId: string, message = `Order ${orderId} was not found`) {
+        super('ORDER_ID_NOT_FOUND', message, 404);
+        this.name = 'OrderNotFoundError';
+        this.orderId = orderId;
+    }
+}
+
+export class OrderClosedError extends ParadexApiError {
+    readonly orderId: string;
+
+    constructor(orderId: string, message = `Order ${orderId} is already filled or cancelled`) {
+        super('ORDER_IS_CLOSED', message, 400);
+        this.name = 'OrderClosedError';
+        this.orderId = orderId;
+    }
+}
+
+// Maps an error code from a cancel request onto the matching error class
+export function cancelOrderError(orderId: string, code: string | undefined, message: string | undefined, status: number) {
+    switch (code) {
+        case 'ORDER_ID_NOT_FOUND':
+        case 'NOT_FOUND':
+            return new OrderNotFoundError(orderId, message);
+        case 'ORDER_IS_CLOSED':
+        case 'ALREADY_CLOSED':
+            return new OrderClosedError(orderId, message);
+        default:
+            return new ParadexApiError(code ?? 'CANCEL_FAILED', message ?? `Failed to cancel order ${orderId}: ${status}`, status);
+    }
+}
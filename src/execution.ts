@@ -0,0 +1,495 @@
+import BigNumber from "bignumber.js";
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { OrderDetails } from "./types";
+import type { ParadexOrder } from "./schemas";
+import type { ParadexClient } from "./paradex";
+import type { ParadexFeed } from "./feed";
+import { checkOrderRules, roundPrice, roundSize, type MarketRules } from "./markets";
+import { getOrder, journalBatchResults, recordOrderStatus, statusFromParadexOrder } from "./memory";
+
+// Execution algorithms that work a parent order as a series of child orders:
+// TWAP slices the size over a duration, an iceberg shows one clip at a time and
+// replenishes it as it fills, a ladder spreads limit orders between two prices.
+// Every child order goes through the usual risk checks and the order journal.
+// Executions live in memory, a restart leaves resting child orders in place.
+
+export type AlgoKind = 'TWAP' | 'ICEBERG' | 'LADDER';
+export type AlgoStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+export type LadderSizing = 'linear' | 'geometric';
+
+interface ParentOrder {
+    market: string;
+    side: 'BUY' | 'SELL';
+    // Total size in the base currency, on the size increment
+    size: string;
+}
+
+export interface TwapParams extends ParentOrder {
+    kind: 'TWAP';
+    durationSeconds: number;
+    slices: number;
+    // Slices go out as IOC limits at this price instead of market orders
+    limitPrice?: string;
+}
+
+export interface IcebergParams extends ParentOrder {
+    kind: 'ICEBERG';
+    price: string;
+    // Size shown on the book at a time
+    clipSize: string;
+}
+
+export interface LadderParams extends ParentOrder {
+    kind: 'LADDER';
+    fromPrice: string;
+    toPrice: string;
+    orders: number;
+    // linear grows the rungs by equal steps from fromPrice to toPrice, geometric
+    // multiplies each rung by `ratio` (1 keeps them equal)
+    sizing: LadderSizing;
+    ratio?: number;
+}
+
+export type AlgoParams = TwapParams | IcebergParams | LadderParams;
+
+export interface ChildOrder {
+    orderId: string;
+    size: string;
+    price?: string;
+    status: string;
+    filledSize: number;
+    avgFillPrice?: number;
+    placedAt: number;
+}
+
+export interface AlgoExecution {
+    id: string;
+    account: string;
+    params: AlgoParams;
+    status: AlgoStatus;
+    // Mid price (or last price) when the execution started, the benchmark for the fills
+    arrivalPrice?: number;
+    children: ChildOrder[];
+    filledSize: number;
+    avgFillPrice?: number;
+    startedAt: number;
+    finishedAt?: number;
+    // TWAP only
+    slicesSent?: number;
+    nextSliceAt?: number;
+    error?: string;
+}
+
+export type AlgoEvent = { type: 'finished' | 'paused' | 'resumed'; execution: AlgoExecution };
+
+interface RunningAlgo {
+    execution: AlgoExecution;
+    client: ParadexClient;
+    rules: MarketRules;
+    // Child sizes still to send, TWAP and ladder
+    plan: Array<{ size: string; price?: string }>;
+    originalRequest: string;
+    timer?: ReturnType<typeof setTimeout>;
+    pausedAt?: number;
+    busy: boolean;
+}
+
+const BPS = 10000;
+const POLL_INTERVAL_MS = 2000;
+const MAX_FINISHED_EXECUTIONS = 50;
+
+// Splits `size` into at most `parts` sizes on the increment, each worth at least
+// the minimum notional at `referencePrice`. The rounding remainder goes to the last part.
+export function splitSize(rules: MarketRules, size: string, parts: number, referencePrice: number): string[] {
+    const total = new BigNumber(size);
+    const smallest = BigNumber.max(
+        rules.sizeIncrement,
+        referencePrice > 0 ? rules.minNotional.dividedBy(referencePrice) : 0,
+    );
+    const count = Math.max(1, Math.min(parts, total.dividedBy(smallest).integerValue(BigNumber.ROUND_FLOOR).toNumber()));
+    const part = roundSize(rules, total.dividedBy(count), 'down');
+    const sizes = Array.from({ length: count - 1 }, () => part);
+    sizes.push(total.minus(new BigNumber(part).multipliedBy(count - 1)).toFixed(new BigNumber(part).decimalPlaces() ?? 0));
+    return sizes;
+}
+
+// Prices evenly spaced from fromPrice to toPrice, rounded in the order's favour,
+// and sizes weighted by the sizing. The rounding remainder goes to the heaviest rung.
+export function planLadder(rules: MarketRules, params: LadderParams): Array<{ size: string; price: string }> {
+    const from = new BigNumber(params.fromPrice);
+    const to = new BigNumber(params.toPrice);
+    const count = params.orders;
+    const weights = Array.from({ length: count }, (_, i) =>
+        params.sizing === 'linear' ? i + 1 : (params.ratio ?? 1.5) ** i);
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const total = new BigNumber(params.size);
+
+    const rungs = weights.map((weight, i) => ({
+        price: roundPrice(rules, count === 1 ? from : from.plus(to.minus(from).multipliedBy(i).dividedBy(count - 1)), params.side),
+        size: roundSize(rules, total.multipliedBy(weight).dividedBy(totalWeight), 'down'),
+    }));
+    const heaviest = weights.indexOf(Math.max(...weights));
+    const assigned = rungs.reduce((sum, rung) => sum.plus(rung.size), new BigNumber(0));
+    rungs[heaviest].size = new BigNumber(rungs[heaviest].size).plus(total.minus(assigned)).toFixed(rules.sizeIncrement.decimalPlaces() ?? 0);
+
+    for (const rung of rungs) {
+        const violation = checkOrderRules(rules, {
+            market: params.market,
+            side: params.side,
+            type: 'LIMIT',
+            size: rung.size,
+            price: rung.price,
+        });
+        if (violation) {
+            throw new Error(`Ladder rung of ${rung.size} @ ${rung.price} is not valid: ${violation.message}. ` +
+                `Use fewer orders or a larger size`);
+        }
+    }
+    return rungs;
+}
+
+function isOpen(child: ChildOrder): boolean {
+    return child.status !== 'CLOSED' && child.status !== 'REJECTED';
+}
+
+export function executionProgress(execution: AlgoExecution): number {
+    return execution.filledSize / Number(execution.params.size);
+}
+
+// Average fill against the arrival price, positive when the fills cost more than arriving
+export function arrivalSlippageBps(execution: AlgoExecution): number | undefined {
+    if (!execution.arrivalPrice || execution.avgFillPrice === undefined) return undefined;
+    const direction = execution.params.side === 'BUY' ? 1 : -1;
+    return (execution.avgFillPrice - execution.arrivalPrice) / execution.arrivalPrice * BPS * direction;
+}
+
+export function formatExecution(execution: AlgoExecution): string {
+    const { params } = execution;
+    const detail = params.kind === 'TWAP'
+        ? `${execution.slicesSent ?? 0}/${params.slices} slices over ` +
+            (params.durationSeconds < 120 ? `${params.durationSeconds}s` : `${Math.round(params.durationSeconds / 60)}m`) +
+            (params.limitPrice ? `, limit ${params.limitPrice}` : '')
+        : params.kind === 'ICEBERG'
+            ? `clips of ${params.clipSize} @ ${params.price}`
+            : `${params.orders} ${params.sizing} rungs ${params.fromPrice} -> ${params.toPrice}`;
+    const slippage = arrivalSlippageBps(execution);
+    const open = execution.children.filter(isOpen).length;
+    return `• ${execution.id} [${execution.status}] ${params.kind} ${params.side} ${params.size} ${params.market} (${detail}): ` +
+        `filled ${execution.filledSize} (${(executionProgress(execution) * 100).toFixed(1)}%)` +
+        (execution.avgFillPrice !== undefined ? ` @ avg ${execution.avgFillPrice.toFixed(4)}` : '') +
+        (execution.arrivalPrice ? `, arrival ${execution.arrivalPrice}` : '') +
+        (slippage !== undefined ? `, ${slippage >= 0 ? '+' : ''}${slippage.toFixed(1)} bps vs arrival` : '') +
+        `, ${execution.children.length} child order(s)${open ? `, ${open} open` : ''}` +
+        (execution.error ? ` - ${execution.error}` : '');
+}
+
+export interface AlgoExecutorOptions {
+    // The arrival price comes from the live book when the feed streams the market
+    feed?: ParadexFeed;
+}
+
+export class AlgoExecutor {
+    private readonly options: AlgoExecutorOptions;
+    private executions = new Map<string, RunningAlgo>();
+    private listeners = new Set<(event: AlgoEvent) => void>();
+    private sequence = 0;
+
+    constructor(options: AlgoExecutorOptions = {}) {
+        this.options = options;
+    }
+
+    subscribe(listener: (event: AlgoEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    get(id: string): AlgoExecution | undefined {
+        return this.executions.get(id)?.execution;
+    }
+
+    list(): AlgoExecution[] {
+        return [...this.executions.values()].map((algo) => algo.execution);
+    }
+
+    // Plans the child orders, records the arrival price and sends the first ones
+    async start(client: ParadexClient, params: AlgoParams, originalRequest: string): Promise<AlgoExecution> {
+        const rules = await client.getMarketRules(params.market);
+        const book = this.options.feed?.getLiveOrderBook(params.market) ??
+            await client.getOrderBook(params.market, 1).catch(() => undefined);
+        const bid = Number(book?.bids[0]?.[0]);
+        const ask = Number(book?.asks[0]?.[0]);
+        const arrivalPrice = bid > 0 && ask > 0 ? (bid + ask) / 2 : bid || ask || undefined;
+
+        let plan: RunningAlgo['plan'] = [];
+        if (params.kind === 'TWAP') {
+            plan = splitSize(rules, params.size, params.slices, Number(params.limitPrice) || arrivalPrice || 0)
+                .map((size) => ({ size, price: params.limitPrice }));
+        } else if (params.kind === 'LADDER') {
+            plan = planLadder(rules, params);
+        }
+
+        const execution: AlgoExecution = {
+            id: `${params.kind.toLowerCase()}-${++this.sequence}`,
+            account: client.name,
+            params: params.kind === 'TWAP' ? { ...params, slices: plan.length } : params,
+            status: 'running',
+            arrivalPrice,
+            children: [],
+            filledSize: 0,
+            startedAt: Date.now(),
+            ...(params.kind === 'TWAP' && { slicesSent: 0, nextSliceAt: Date.now() }),
+        };
+        const algo: RunningAlgo = { execution, client, rules, plan, originalRequest, busy: false };
+        this.executions.set(execution.id, algo);
+        this.prune();
+
+        await this.advance(algo);
+        return execution;
+    }
+
+    // Stops sending new child orders, the ones resting on the book stay
+    pause(id: string): AlgoExecution {
+        const algo = this.require(id);
+        if (algo.execution.status !== 'running') {
+            throw new Error(`Execution ${id} is ${algo.execution.status}, only running executions can be paused`);
+        }
+        algo.execution.status = 'paused';
+        algo.pausedAt = Date.now();
+        this.emit({ type: 'paused', execution: algo.execution });
+        return algo.execution;
+    }
+
+    resume(id: string): AlgoExecution {
+        const algo = this.require(id);
+        if (algo.execution.status !== 'paused') {
+            throw new Error(`Execution ${id} is ${algo.execution.status}, only paused executions can be resumed`);
+        }
+        // The TWAP schedule moves by the time spent paused
+        if (algo.execution.nextSliceAt !== undefined && algo.pausedAt) {
+            algo.execution.nextSliceAt += Date.now() - algo.pausedAt;
+        }
+        algo.execution.status = 'running';
+        algo.pausedAt = undefined;
+        this.emit({ type: 'resumed', execution: algo.execution });
+        this.schedule(algo, 0);
+        return algo.execution;
+    }
+
+    // Stops the execution and cancels its open child orders
+    async cancel(id: string): Promise<AlgoExecution> {
+        const algo = this.require(id);
+        if (!['running', 'paused'].includes(algo.execution.status)) {
+            throw new Error(`Execution ${id} already ${algo.execution.status}`);
+        }
+        await this.finish(algo, 'cancelled');
+        return algo.execution;
+    }
+
+    // Shutdown: timers stop, child orders are left as they are
+    close() {
+        for (const algo of this.executions.values()) {
+            clearTimeout(algo.timer);
+        }
+    }
+
+    private require(id: string): RunningAlgo {
+        const algo = this.executions.get(id);
+        if (!algo) {
+            throw new Error(`No execution with id ${id}`);
+        }
+        return algo;
+    }
+
+    private schedule(algo: RunningAlgo, delay: number) {
+        clearTimeout(algo.timer);
+        algo.timer = setTimeout(() => void this.advance(algo), delay);
+    }
+
+    private async advance(algo: RunningAlgo) {
+        if (algo.busy) return;
+        algo.busy = true;
+        const { execution } = algo;
+        try {
+            await this.refresh(algo);
+            // Paused executions keep tracking the fills of their resting orders
+            if (execution.status === 'paused') {
+                return this.schedule(algo, POLL_INTERVAL_MS);
+            }
+            if (execution.status !== 'running') return;
+
+            const remaining = new BigNumber(execution.params.size).minus(execution.filledSize);
+            const open = execution.children.filter(isOpen);
+            const { params } = execution;
+
+            if (params.kind === 'TWAP') {
+                if (execution.slicesSent! < algo.plan.length && Date.now() >= execution.nextSliceAt!) {
+                    await this.place(algo, [algo.plan[execution.slicesSent!]]);
+                    execution.slicesSent!++;
+                    execution.nextSliceAt! += params.durationSeconds * 1000 / algo.plan.length;
+                }
+                if (execution.slicesSent === algo.plan.length && !execution.children.some(isOpen)) {
+                    return await this.finish(algo, 'completed');
+                }
+            } else if (params.kind === 'ICEBERG') {
+                if (remaining.lte(0)) {
+                    return await this.finish(algo, 'completed');
+                }
+                if (!open.length) {
+                    const clip = BigNumber.min(params.clipSize, remaining);
+                    await this.place(algo, [{ size: roundSize(algo.rules, clip), price: params.price }]);
+                }
+            } else {
+                if (algo.plan.length) {
+                    await this.place(algo, algo.plan.splice(0));
+                }
+                if (!execution.children.some(isOpen)) {
+                    return await this.finish(algo, execution.filledSize > 0 ? 'completed' : 'failed');
+                }
+            }
+
+            const untilSlice = execution.nextSliceAt !== undefined ? execution.nextSliceAt - Date.now() : Infinity;
+            this.schedule(algo, Math.max(0, Math.min(POLL_INTERVAL_MS, untilSlice)));
+        } catch (error) {
+            console.error(`Execution ${execution.id} failed:`, error);
+            execution.error = error instanceof Error ? error.message : String(error);
+            await this.finish(algo, 'failed');
+        } finally {
+            algo.busy = false;
+        }
+    }
+
+    // Sends child orders as one risk-checked batch. The whole batch rejected fails
+    // the execution, single failures of a ladder are kept as REJECTED children.
+    private async place(algo: RunningAlgo, slices: Array<{ size: string; price?: string }>) {
+        const { execution, client } = algo;
+        const { params } = execution;
+        if (execution.status !== 'running') return;
+        const orders: OrderDetails[] = slices.map(({ size, price }) => ({
+            market: params.market,
+            side: params.side,
+            type: price ? 'LIMIT' : 'MARKET',
+            size,
+            ...(price && { price }),
+            ...(params.kind === 'TWAP' && price && { timeInForceType: 'IOC' }),
+        }));
+
+        const results = await client.executeBatchOrders(orders);
+        await journalBatchResults(orders, results, params.kind, `${execution.id}: ${algo.originalRequest}`, client.account.name);
+        results.forEach((result, i) => execution.children.push({
+            orderId: result.orderId,
+            size: orders[i].size,
+            price: orders[i].price,
+            status: result.orderId ? result.status : 'REJECTED',
+            filledSize: 0,
+            placedAt: Date.now(),
+        }));
+
+        const failed = results.filter((result) => !result.orderId);
+        if (failed.length === results.length) {
+            throw new Error(`Child order rejected: ${failed[0].error ?? failed[0].status}`);
+        }
+        // Filled on placement (market slices, paper trading): count them right away
+        results.forEach((result) => result.data && this.update(execution, result.data));
+        this.aggregate(execution);
+    }
+
+    // Polls the child orders still open and journals the ones that closed
+    private async refresh(algo: RunningAlgo) {
+        const { execution, client } = algo;
+        await Promise.all(execution.children.filter(isOpen).map(async (child) => {
+            const order = await client.getOrder(child.orderId);
+            this.update(execution, order);
+            if (order.status === 'CLOSED') {
+                const status = statusFromParadexOrder(order);
+                const recorded = await getOrder(child.orderId);
+                if (recorded && recorded.status !== status) {
+                    await recordOrderStatus(child.orderId, status, order.cancel_reason || undefined);
+                }
+            }
+        }));
+        this.aggregate(execution);
+    }
+
+    private update(execution: AlgoExecution, order: ParadexOrder) {
+        const child = execution.children.find((c) => c.orderId === order.id);
+        if (!child) return;
+        child.status = order.status;
+        child.filledSize = Number(order.size) - Number(order.remaining_size);
+        child.avgFillPrice = Number(order.avg_fill_price) || undefined;
+    }
+
+    private aggregate(execution: AlgoExecution) {
+        const filled = execution.children.filter((child) => child.filledSize > 0 && child.avgFillPrice);
+        execution.filledSize = Number(filled.reduce((total, child) => total + child.filledSize, 0).toPrecision(12));
+        const notional = filled.reduce((total, child) => total + child.filledSize * child.avgFillPrice!, 0);
+        execution.avgFillPrice = execution.filledSize > 0 ? notional / execution.filledSize : undefined;
+    }
+
+    private async finish(algo: RunningAlgo, status: AlgoStatus) {
+        clearTimeout(algo.timer);
+        const { execution, client } = algo;
+        // Set first so a tick in flight places nothing more
+        execution.status = status;
+        const open = execution.children.filter(isOpen);
+        if (status !== 'completed' && open.length) {
+            const results = await client.cancelOrders(open.map((child) => ({ id: child.orderId, market: execution.params.market })));
+            const failed = results.filter((result) => result.error);
+            if (failed.length) {
+                execution.error = [execution.error, `could not cancel ${failed.map((r) => r.orderId).join(', ')}`]
+                    .filter(Boolean).join(', ');
+            }
+            await this.refresh(algo).catch((error) => console.error(`Failed to refresh ${execution.id}:`, error));
+        }
+        execution.finishedAt = Date.now();
+        this.emit({ type: 'finished', execution });
+    }
+
+    // Keeps the most recent finished executions for the status action
+    private prune() {
+        const finished = [...this.executions.values()].filter((algo) => algo.execution.finishedAt);
+        for (const algo of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_EXECUTIONS))) {
+            this.executions.delete(algo.execution.id);
+        }
+    }
+
+    private emit(event: AlgoEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Execution listener failed:', error);
+            }
+        }
+    }
+}
+
+// Reports finished executions with their fill summary to the agent
+export function createAlgoInput(executor: AlgoExecutor) {
+    return input({
+        schema: z.object({
+            event: z.string(),
+            id: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return executor.subscribe((event) => {
+                if (event.type !== 'finished') return;
+                const { execution } = event;
+                send(cli.contexts!.cli, { user: "admin" }, {
+                    event: execution.status,
+                    id: execution.id,
+                    text: `Execution ${execution.id} ${execution.status}:\n${formatExecution(execution)}`,
+                });
+            });
+        },
+    });
+}
@@ -0,0 +1,405 @@
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { ParadexAccount, ParadexConfig } from "./types";
+import {
+    fillSchema,
+    marketSummarySchema,
+    orderBookUpdateSchema,
+    orderSchema,
+    tradeSchema,
+    type MarketSummary,
+    type OrderBook,
+    type OrderBookUpdate,
+    type ParadexFill,
+    type ParadexOrder,
+    type ParadexTrade,
+} from "./schemas";
+
+// Paradex WebSocket (JSON-RPC) subscriber keeping a live view of prices,
+// order books, trades and our own orders/fills. Messages are validated against
+// the same models as the REST responses, malformed ones are logged and dropped.
+// Private channels are per account: other accounts get a feed of their own
+// orders and fills, relayed through the feed carrying the market data.
+
+interface OrderBookLevel {
+    price: string;
+    size: string;
+}
+
+interface OrderBookState {
+    market: string;
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+    seqNo: number;
+    lastUpdatedAt: number;
+}
+
+export type FeedEvent =
+    | { type: 'markets_summary'; market: string; data: MarketSummary }
+    | { type: 'order_book'; market: string; data: OrderBookState }
+    | { type: 'trade'; market: string; data: ParadexTrade }
+    // Relayed events name the account they come from
+    | { type: 'order'; market: string; data: ParadexOrder; account?: string }
+    | { type: 'fill'; market: string; data: ParadexFill; account?: string }
+    | { type: 'status'; connected: boolean };
+
+export interface FeedOptions {
+    url: string;
+    // Markets to stream order books and trades for, summaries cover every market
+    markets: string[];
+    // Only the account's orders and fills, no market data
+    privateOnly?: boolean;
+}
+
+const MAX_RECENT_TRADES = 100;
+const SUMMARY_FRESHNESS_MS = 10000;
+const TOKEN_CHECK_INTERVAL_MS = 30000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+export function deriveWebSocketUrl(apiBaseUrl: string): string {
+    const url = new URL(apiBaseUrl);
+    url.protocol = url.protocol === "http:" ? "ws:" : "wss:";
+    if (url.hostname.startsWith("api.")) {
+        url.hostname = `ws.${url.hostname}`;
+    }
+    return url.toString().replace(/\/$/, "");
+}
+
+export class ParadexFeed {
+    private readonly account: ParadexAccount;
+    private readonly options: FeedOptions;
+    private socket?: WebSocket;
+    private listeners = new Set<(event: FeedEvent) => void>();
+    private summaries = new Map<string, MarketSummary & { receivedAt: number }>();
+    private orderBooks = new Map<string, OrderBookState>();
+    private trades = new Map<string, ParadexTrade[]>();
+    private orders = new Map<string, ParadexOrder>();
+    private fills: ParadexFill[] = [];
+    private requestId = 0;
+    private reconnectAttempts = 0;
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private tokenTimer?: ReturnType<typeof setInterval>;
+    private authenticatedToken?: string;
+    private stopped = true;
+
+    constructor(_config: ParadexConfig, account: ParadexAccount, options: FeedOptions) {
+        this.account = account;
+        this.options = options;
+    }
+
+    start() {
+        if (!this.stopped) return;
+        this.stopped = false;
+        this.connect();
+
+        // The JWT is refreshed elsewhere, re-authenticate the socket when it changes
+        this.tokenTimer = setInterval(() => {
+            if (this.account.jwtToken && this.account.jwtToken !== this.authenticatedToken) {
+                this.authenticate();
+            }
+        }, TOKEN_CHECK_INTERVAL_MS);
+    }
+
+    stop() {
+        this.stopped = true;
+        clearTimeout(this.reconnectTimer);
+        clearInterval(this.tokenTimer);
+        this.socket?.close();
+        this.socket = undefined;
+    }
+
+    isConnected(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    subscribe(listener: (event: FeedEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    getMarketSummary(symbol: string): MarketSummary | undefined {
+        const summary = this.summaries.get(symbol);
+        if (!summary || Date.now() - summary.receivedAt > SUMMARY_FRESHNESS_MS) {
+            return undefined;
+        }
+        return summary;
+    }
+
+    getOrderBook(symbol: string): OrderBookState | undefined {
+        return this.orderBooks.get(symbol);
+    }
+
+    // The streamed book in the /orderbook shape, while the socket is up
+    getLiveOrderBook(symbol: string): OrderBook | undefined {
+        const book = this.orderBooks.get(symbol);
+        if (!book || !this.isConnected()) return undefined;
+        return {
+            market: book.market,
+            bids: book.bids.map((level): [string, string] => [level.price, level.size]),
+            asks: book.asks.map((level): [string, string] => [level.price, level.size]),
+            seq_no: book.seqNo,
+            last_updated_at: book.lastUpdatedAt,
+        };
+    }
+
+    getRecentTrades(symbol: string): ParadexTrade[] {
+        return [...(this.trades.get(symbol) ?? [])];
+    }
+
+    getOrders(): ParadexOrder[] {
+        return [...this.orders.values()];
+    }
+
+    getFills(): ParadexFill[] {
+        return [...this.fills];
+    }
+
+    // Passes another account's order and fill events on to this feed's listeners
+    relay(feed: ParadexFeed): () => void {
+        const account = feed.account.name ?? feed.account.address;
+        return feed.subscribe((event) => {
+            if (event.type === 'order' || event.type === 'fill') {
+                this.emit({ ...event, account });
+            }
+        });
+    }
+
+    // Overlays live prices on a `/markets` entry when the summary is fresh
+    withLivePrices<T extends { symbol: string }>(market: T): T {
+        const summary = this.getMarketSummary(market.symbol);
+        if (!summary) return market;
+        return {
+            ...market,
+            ...(summary.last_traded_price && { last_price: summary.last_traded_price }),
+            ...(summary.mark_price && { mark_price: summary.mark_price }),
+            ...(summary.underlying_price && { index_price: summary.underlying_price }),
+            ...(summary.funding_rate && { funding_rate: summary.funding_rate }),
+            ...(summary.open_interest && { open_interest: summary.open_interest }),
+            ...(summary.volume_24h && { volume_24h: summary.volume_24h }),
+        };
+    }
+
+    private connect() {
+        const socket = new WebSocket(this.options.url);
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.reconnectAttempts = 0;
+            console.log(`Market feed connected to ${this.options.url}`);
+            this.authenticate();
+            this.subscribeChannels();
+            this.emit({ type: 'status', connected: true });
+        };
+
+        socket.onmessage = (message) => {
+            try {
+                this.handleMessage(JSON.parse(String(message.data)));
+            } catch (error) {
+                console.error('Market feed message error:', error);
+            }
+        };
+
+        socket.onerror = () => {
+            console.error(`Market feed error on ${this.options.url}`);
+        };
+
+        socket.onclose = () => {
+            this.authenticatedToken = undefined;
+            this.emit({ type: 'status', connected: false });
+            if (!this.stopped) {
+                this.scheduleReconnect();
+            }
+        };
+    }
+
+    private scheduleReconnect() {
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** this.reconnectAttempts);
+        this.reconnectAttempts++;
+        console.log(`Market feed disconnected, reconnecting in ${delay / 1000}s`);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    }
+
+    private send(method: string, params: Record<string, unknown>) {
+        if (!this.isConnected()) return;
+        this.socket!.send(JSON.stringify({
+            jsonrpc: "2.0",
+            method,
+            params,
+            id: this.requestId++,
+        }));
+    }
+
+    private authenticate() {
+        if (!this.account.jwtToken) return;
+        this.send("auth", { bearer: this.account.jwtToken });
+        this.authenticatedToken = this.account.jwtToken;
+    }
+
+    private subscribeChannels() {
+        const channels = this.options.privateOnly ? ["orders.ALL", "fills.ALL"] : [
+            "markets_summary",
+            "orders.ALL",
+            "fills.ALL",
+            ...this.options.markets.flatMap((market) => [
+                `order_book.${market}.snapshot@15@100ms`,
+                `trades.${market}`,
+            ]),
+        ];
+        for (const channel of channels) {
+            this.send("subscribe", { channel });
+        }
+    }
+
+    // The data of a subscription message, or undefined when it doesn't match the channel's model
+    private parse<T extends z.ZodTypeAny>(schema: T, channel: string, data: unknown): z.infer<T> | undefined {
+        const result = schema.safeParse(data);
+        if (!result.success) {
+            const [issue] = result.error.issues;
+            console.error(`Market feed dropped an invalid ${channel} message: ${issue.path.join('.') || 'data'}: ${issue.message}`);
+            return undefined;
+        }
+        return result.data;
+    }
+
+    private handleMessage(message: { error?: unknown; method?: string; params?: { channel: string; data: unknown } }) {
+        if (message.error) {
+            console.error('Market feed RPC error:', message.error);
+            return;
+        }
+        if (message.method !== "subscription" || !message.params) return;
+
+        const { channel, data: raw } = message.params;
+
+        if (channel.startsWith("markets_summary")) {
+            const data = this.parse(marketSummarySchema, channel, raw);
+            if (!data) return;
+            this.summaries.set(data.symbol, { ...data, receivedAt: Date.now() });
+            this.emit({ type: 'markets_summary', market: data.symbol, data });
+        } else if (channel.startsWith("order_book.")) {
+            const data = this.parse(orderBookUpdateSchema, channel, raw);
+            if (!data) return;
+            const book = this.applyOrderBook(data);
+            this.emit({ type: 'order_book', market: book.market, data: book });
+        } else if (channel.startsWith("trades.")) {
+            const data = this.parse(tradeSchema, channel, raw);
+            if (!data) return;
+            const trades = this.trades.get(data.market) ?? [];
+            trades.push(data);
+            this.trades.set(data.market, trades.slice(-MAX_RECENT_TRADES));
+            this.emit({ type: 'trade', market: data.market, data });
+        } else if (channel.startsWith("orders.")) {
+            const data = this.parse(orderSchema, channel, raw);
+            if (!data) return;
+            if (data.status === "CLOSED") {
+                this.orders.delete(data.id);
+            } else {
+                this.orders.set(data.id, data);
+            }
+            this.emit({ type: 'order', market: data.market, data });
+        } else if (channel.startsWith("fills.")) {
+            const data = this.parse(fillSchema, channel, raw);
+            if (!data) return;
+            this.fills = [...this.fills, data].slice(-MAX_RECENT_TRADES);
+            this.emit({ type: 'fill', market: data.market, data });
+        }
+    }
+
+    private applyOrderBook(data: OrderBookUpdate): OrderBookState {
+        const isSnapshot = data.update_type === "s";
+        const previous = this.orderBooks.get(data.market);
+        const levels = new Map<string, OrderBookLevel & { side: string }>();
+
+        if (!isSnapshot && previous) {
+            for (const bid of previous.bids) levels.set(`BUY:${bid.price}`, { ...bid, side: "BUY" });
+            for (const ask of previous.asks) levels.set(`SELL:${ask.price}`, { ...ask, side: "SELL" });
+        }
+        for (const level of data.deletes ?? []) {
+            levels.delete(`${level.side}:${level.price}`);
+        }
+        for (const level of [...(data.inserts ?? []), ...(data.updates ?? [])]) {
+            levels.set(`${level.side}:${level.price}`, level);
+        }
+
+        const all = [...levels.values()];
+        const book: OrderBookState = {
+            market: data.market,
+            bids: all
+                .filter((level) => level.side === "BUY")
+                .sort((a, b) => Number(b.price) - Number(a.price))
+                .map(({ price, size }) => ({ price, size })),
+            asks: all
+                .filter((level) => level.side === "SELL")
+                .sort((a, b) => Number(a.price) - Number(b.price))
+                .map(({ price, size }) => ({ price, size })),
+            seqNo: data.seq_no ?? 0,
+            lastUpdatedAt: data.last_updated_at ?? Date.now(),
+        };
+        this.orderBooks.set(book.market, book);
+        return book;
+    }
+
+    private emit(event: FeedEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Market feed listener error:', error);
+            }
+        }
+    }
+}
+
+// Publishes fills, order updates and significant price moves into the agent
+export function createFeedInput(feed: ParadexFeed, priceMovePercent: number) {
+    return input({
+        schema: z.object({
+            event: z.string(),
+            market: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            const referencePrices = new Map<string, number>();
+            const publish = (event: string, market: string, text: string) =>
+                send(cli.contexts!.cli, { user: "admin" }, { event, market, text });
+
+            return feed.subscribe((event) => {
+                if (event.type === 'fill') {
+                    const fill = event.data;
+                    publish('fill', event.market,
+                        `Fill${event.account ? ` on ${event.account}` : ''}: ${fill.side} ${fill.size} ${fill.market} @ ${fill.price} ` +
+                        `(fee ${fill.fee ?? '0'}, order ${fill.order_id})`);
+                } else if (event.type === 'order' && event.data.status === 'CLOSED') {
+                    const order = event.data;
+                    publish('order', event.market,
+                        `Order ${order.id} (${order.side} ${order.size} ${order.market}) closed` +
+                        (event.account ? ` on ${event.account}` : '') +
+                        (order.cancel_reason ? `: ${order.cancel_reason}` : ''));
+                } else if (event.type === 'markets_summary') {
+                    const price = Number(event.data.last_traded_price || event.data.mark_price);
+                    if (!(price > 0)) return;
+
+                    const reference = referencePrices.get(event.market);
+                    if (reference === undefined) {
+                        referencePrices.set(event.market, price);
+                        return;
+                    }
+
+                    const change = (price - reference) / reference * 100;
+                    if (Math.abs(change) >= priceMovePercent) {
+                        referencePrices.set(event.market, price);
+                        publish('price_move', event.market,
+                            `Price move: ${event.market} moved ${change.toFixed(2)}% from ${reference} to ${price}`);
+                    }
+                }
+            });
+        },
+    });
+}
@@ -1,16 +1,16 @@
-import { shortString } from "starknet";
-import type { ParadexAccount, ParadexConfig } from "./types";
+import path from "path";
+import { mkdir, writeFile } from "fs/promises";
+import BigNumber from "bignumber.js";
+import type { CandleResolution, OrderDetails, ParadexConfig } from "./types";
+import type { Market, OrderBook, ParadexOrder, Position } from "./schemas";
 import {
-    authenticate,
-    getAccountInfo,
-    getOpenOrders,
-    getPositions,
     listAvailableMarkets,
-    openOrder,
-    cancelOrder,
     analyzeMarket,
+    getOrderBook,
+    ParadexClient,
+    type OrderPreview,
 } from "./paradex";
-import { env } from "./config";
+import { container } from "./config";
 import { groq } from "@ai-sdk/groq";
 import {
     action,
@@ -21,66 +21,423 @@ import {
 } from "@daydreamsai/core/v1";
 import type { Action } from "@daydreamsai/core/v1";
 import { z } from "zod";
-import { storeOrder, getOrder } from "./memory";
-
-interface ParadexOrder {
-    market: string;
-    side: string;
-    type: string;
-    size: string;
-    price: string;
-}
+import {
+    storeOrder,
+    getOrder,
+    queryOrders,
+    recordFill,
+    recordOrderStatus,
+    recordRejectedOrder,
+    journalBatchResults,
+    statusFromParadexOrder,
+    type OrderRecord,
+    type OrderStatus,
+} from "./memory";
+import { ParadexFeed, createFeedInput } from "./feed";
+import { createTokenInput } from "./auth";
+import { StrategyRunner, createStrategyInput, type StrategyRecord } from "./strategy";
+import { builtinStrategies } from "./strategies";
+import { formatPortfolioReport, portfolioCsv } from "./portfolio";
+import { MarginMonitor, createMarginInput, formatMarginHealth } from "./margin";
+import { AlgoExecutor, createAlgoInput, formatExecution, planLadder, type AlgoParams } from "./execution";
+import { AlertManager, createAlertInput, formatAlert } from "./alerts";
+import { BracketKeeper, createBracketInput, formatLegResults, type BracketLeg } from "./brackets";
+import {
+    ConditionalOrderManager,
+    createConditionalInput,
+    formatConditionalOrder,
+    type ConditionalAction,
+    type ConditionalOrderRecord,
+    type ConditionalOrderSpec,
+    type ConditionalSubmission,
+} from "./conditional";
+import { RiskRejectedError, signedPositionSize } from "./risk";
+import { ParadexApiError } from "./errors";
+import { applySlippageCap, estimateSlippage, formatSlippageEstimate } from "./slippage";
+import { checkOrderRules, marketRules, roundPrice, roundSize, type MarketRules } from "./markets";
+import { planPositionOrder, realizedPnl, type PositionAdjustment, type PositionOrderPlan } from "./positions";
+import { ConfirmationError, ConfirmationStore, type ConfirmationKind } from "./confirmation";
+import {
+    findMarketInText,
+    mergeOrderRequest,
+    parseAccountName,
+    parseAlertText,
+    parseConditionalText,
+    parseConfirmationToken,
+    parseOrderId,
+    parseOrderText,
+    parsePercent,
+    parseTargetSize,
+    parseThreshold,
+    resolveMarket,
+    type BracketRequest,
+    type OrderRequest,
+} from "./parser";
 
-const marketCache = new Map<string, { data: any, timestamp: number }>();
+type ActionResult = { success: boolean; message: string };
+
+const marketCache = new Map<string, { data: Market[], timestamp: number }>();
 const CACHE_DURATION = 30000;
 
-async function getCachedMarkets(config: ParadexConfig, market?: string): Promise<any[]> {
+let marketFeed: ParadexFeed | undefined;
+
+// Market metadata comes from the cached /markets response, prices from the live feed when connected
+async function getCachedMarkets(config: ParadexConfig, market?: string): Promise<Market[]> {
     const cacheKey = market || 'all_markets';
     const cached = marketCache.get(cacheKey);
 
+    let markets: Market[];
     if (cached && (Date.now() - cached.timestamp < CACHE_DURATION)) {
-        return cached.data;
+        markets = cached.data;
+    } else {
+        markets = await listAvailableMarkets(config, market);
+        marketCache.set(cacheKey, { data: markets, timestamp: Date.now() });
     }
 
-    const markets = await listAvailableMarkets(config, market);
-    marketCache.set(cacheKey, { data: markets, timestamp: Date.now() });
-    return markets;
+    const feed = marketFeed;
+    return feed ? markets.map((m) => feed.withLivePrices(m)) : markets;
 }
 
-async function paradexLogin(): Promise<
-    { config: ParadexConfig; account: ParadexAccount }
-> {
-    const apiBaseUrl = env.apiBaseUrl;
-    const chainId = shortString.encodeShortString(env.starknet.chainId);
+// Resolves the client of every configured account from the container and authenticates them
+async function paradexLogin(): Promise<ParadexClient[]> {
+    const clients = container.resolve("paradex") as ParadexClient[];
+    await Promise.all(clients.map((client) => {
+        console.log(`Authenticating Paradex account ${client.name} (${client.account.address})`);
+        return client.connect();
+    }));
+    return clients;
+}
 
-    const config: ParadexConfig = {
-        apiBaseUrl,
-        starknet: { chainId },
-    };
+const accountField = z.string().optional()
+    .describe("Name of the account or subaccount to use, e.g. 'hedge'. Defaults to the main account");
+
+// Order fields shared by the single and batch order actions
+const orderFields = {
+    market: z.string().optional().describe("Market symbol or base token, e.g. ETH-USD-PERP or ETH"),
+    side: z.enum(['BUY', 'SELL']).optional(),
+    type: z.enum(['MARKET', 'LIMIT', 'STOP_MARKET', 'STOP_LIMIT', 'TAKE_PROFIT_MARKET', 'TAKE_PROFIT_LIMIT']).optional()
+        .describe("Defaults to LIMIT when a price is given, MARKET otherwise"),
+    size: z.string().optional().describe("Order size in the base currency, e.g. 0.1 for 0.1 ETH"),
+    notional: z.string().optional().describe("Order size in USD, used instead of size"),
+    price: z.string().optional().describe("Limit price for LIMIT, STOP_LIMIT and TAKE_PROFIT_LIMIT orders"),
+    triggerPrice: z.string().optional().describe("Trigger price for stop and take-profit orders"),
+    timeInForce: z.enum(['GTC', 'IOC', 'POST_ONLY']).optional()
+        .describe("Defaults to IOC for market orders and GTC otherwise"),
+    reduceOnly: z.boolean().optional().describe("Only reduce an existing position, never open or grow one"),
+    clientId: z.string().optional().describe("Your own unique id for the order")
+};
+
+// Validates a request against the market's sizing and price rules
+function buildOrderDetails(
+    request: OrderRequest,
+    markets: Market[],
+): { order: OrderDetails; market: Market; rules: MarketRules; lastPrice: number } | { error: string } {
+    if (!request.market || !request.side || !(request.size || request.notional)) {
+        return {
+            error: "An order needs a market, a side and a size in the base currency or in USD. Examples:\n" +
+                "'buy 0.1 ETH at market price'\n" +
+                "'sell 0.5 BTC at limit 40000'\n" +
+                "'buy $500 of SOL'\n" +
+                "'sell 0.1 ETH at stop 2900' or 'sell 0.1 ETH at stop 2900 limit 2890'\n" +
+                "'buy 0.1 ETH at market with stop 5% and target 10%'"
+        };
+    }
+
+    const marketSymbol = resolveMarket(request.market, markets);
+    const market = markets.find((m) => m.symbol === marketSymbol);
+    if (!market) {
+        return {
+            error: `Market ${request.market.toUpperCase()} is not available. Available markets:\n` +
+                markets.map((m) => m.symbol).join(", ")
+        };
+    }
+
+    const type = request.type ?? (request.price ? 'LIMIT' : 'MARKET');
+    const isTrigger = type !== 'MARKET' && type !== 'LIMIT';
+    const lastPrice = Number(market.last_price || market.mark_price || 0);
+
+    if (type === 'LIMIT' && !request.price) {
+        return { error: "Limit orders require a price. Example: 'buy 0.1 ETH at limit 3000'" };
+    }
+    if (isTrigger && !request.triggerPrice) {
+        return { error: "Stop and take-profit orders require a trigger price. Example: 'sell 0.1 ETH at stop 2900'" };
+    }
+    if (isTrigger && type.endsWith('_LIMIT') && !request.price) {
+        return { error: `${type} orders require a limit price. Example: 'sell 0.1 ETH at stop 2900 limit 2890'` };
+    }
+
+    const rules = marketRules(market);
+    let size: string;
+    if (request.size) {
+        size = roundSize(rules, request.size);
+    } else {
+        const sizingPrice = request.price || request.triggerPrice || lastPrice;
+        if (!Number(sizingPrice)) {
+            return { error: `No price available for ${marketSymbol} to convert ${request.notional} USD into a size` };
+        }
+        // USD sizes round down so the order never exceeds the requested notional
+        size = roundSize(rules, new BigNumber(request.notional!).dividedBy(sizingPrice));
+    }
+    if (!(Number(size) > 0)) {
+        return {
+            error: `${request.size ? `${request.size} ${market.base_currency}` : `${request.notional} USD`} is below the ` +
+                `${marketSymbol} size increment of ${market.order_size_increment} ${market.base_currency}`
+        };
+    }
 
-    const account: ParadexAccount = {
-        address: process.env.PARADEX_ACCOUNT_ADDRESS || "",
-        privateKey: process.env.PARADEX_PRIVATE_KEY || "",
+    const order: OrderDetails = {
+        market: market.symbol,
+        side: request.side,
+        type,
+        size,
+        timeInForceType: request.timeInForce ?? (type === 'MARKET' ? 'IOC' : 'GTC'),
+        ...(request.reduceOnly && { reduceOnly: true }),
+        ...(request.clientId && { clientId: request.clientId })
     };
 
-    console.log(`Authenticating Paradex account ${account.address}`);
-    account.jwtToken = await authenticate(config, account);
+    if (type === 'LIMIT') {
+        const priceNum = Number(request.price);
+        order.price = roundPrice(rules, request.price!, request.side);
+
+        if (lastPrice && Math.abs((priceNum - lastPrice) / lastPrice) > 0.1) {
+            return {
+                error: `Warning: Your limit price (${order.price}) deviates significantly from the last price (${lastPrice}). Please confirm the price.`
+            };
+        }
+    } else if (isTrigger) {
+        order.triggerPrice = roundPrice(rules, request.triggerPrice!, 'nearest');
+        if (request.price) {
+            order.price = roundPrice(rules, request.price, request.side);
+        }
+    }
+
+    const violation = checkOrderRules(rules, order, lastPrice || undefined);
+    if (violation) {
+        return { error: violation.message };
+    }
+
+    return { order, market, rules, lastPrice };
+}
 
-    return { config, account };
+// The live book when the feed streams the market, /orderbook otherwise
+async function loadOrderBook(config: ParadexConfig, market: string): Promise<OrderBook> {
+    return marketFeed?.getLiveOrderBook(market) ?? getOrderBook(config, market);
 }
 
-let authRefreshTimeout: ReturnType<typeof setTimeout>;
-async function debouncedAuthRefresh(config: ParadexConfig, account: ParadexAccount) {
-    if (authRefreshTimeout) {
-        clearTimeout(authRefreshTimeout);
+// Walks the book for a market order and applies the slippage cap, which may turn it
+// into an IOC limit at the cap. An unreadable book doesn't hold the order back.
+async function protectMarketOrder(
+    config: ParadexConfig,
+    order: OrderDetails,
+    rules: MarketRules,
+): Promise<{ order: OrderDetails; note: string; text: string } | { error: string }> {
+    if (order.type !== 'MARKET' || !config.slippage) {
+        return { order, note: '', text: '' };
+    }
+
+    let book;
+    try {
+        book = await loadOrderBook(config, order.market);
+    } catch (error) {
+        console.error(`Order book for ${order.market} unavailable:`, error);
+        return { order, note: ', slippage unknown', text: '• Expected slippage: unknown, the order book could not be loaded\n' };
+    }
+
+    const decision = applySlippageCap(order, estimateSlippage(book, order.side as 'BUY' | 'SELL', Number(order.size)), rules, config.slippage);
+    const estimateText = formatSlippageEstimate(decision.estimate) + '\n';
+    switch (decision.action) {
+        case 'send':
+            return {
+                order,
+                note: decision.estimate.averagePrice !== undefined
+                    ? `, expected fill ~${decision.estimate.averagePrice.toFixed(4)} (${decision.estimate.slippageBps?.toFixed(1)} bps)`
+                    : '',
+                text: estimateText,
+            };
+        case 'limit':
+            return {
+                order: { ...order, type: 'LIMIT', price: decision.price, timeInForceType: 'IOC' },
+                note: ` (IOC, capped at ${config.slippage.maxBps} bps slippage)`,
+                text: estimateText + `• Sent as an IOC limit at ${decision.price} because ${decision.reason}\n`,
+            };
+        case 'reject':
+            return {
+                error: `Market order refused: ${decision.reason}.\n${estimateText}` +
+                    `Use a limit order, a smaller size or raise PARADEX_MAX_SLIPPAGE_BPS.`
+            };
     }
-    authRefreshTimeout = setTimeout(async () => {
-        try {
-            account.jwtToken = await authenticate(config, account);
-        } catch (error) {
-            console.error('Auth refresh failed:', error);
+}
+
+// Places a held order once its conditions hold, through the same market rules,
+// slippage cap and risk checks as paradex-open-order
+async function submitConditionalOrder(
+    config: ParadexConfig,
+    client: ParadexClient,
+    record: ConditionalOrderRecord,
+): Promise<ConditionalSubmission> {
+    const markets = await getCachedMarkets(config);
+    let order: OrderDetails;
+    if (record.action.kind === 'close') {
+        const { market, percent } = record.action;
+        const position = (await client.getPositions()).find((p) => p.market === market && Number(p.size) !== 0);
+        const marketInfo = markets.find((m) => m.symbol === market);
+        if (!position) {
+            throw new Error(`There is no open ${market} position`);
+        }
+        if (!marketInfo) {
+            throw new Error(`Market ${market} is not available`);
         }
-    }, 1000);
+        const plan = planPositionOrder(position, marketInfo.order_size_increment, { kind: 'close', percent });
+        if ('error' in plan) {
+            throw new Error(plan.error);
+        }
+        order = plan.order;
+    } else {
+        const built = buildOrderDetails(record.action.order, markets);
+        if ('error' in built) {
+            throw new Error(built.error);
+        }
+        const protectedOrder = await protectMarketOrder(config, built.order, built.rules);
+        if ('error' in protectedOrder) {
+            throw new Error(protectedOrder.error);
+        }
+        order = protectedOrder.order;
+    }
+
+    const entry = {
+        market: order.market,
+        side: order.side as 'BUY' | 'SELL',
+        type: order.type,
+        size: order.size,
+        price: order.price,
+        triggerPrice: order.triggerPrice,
+        timestamp: Date.now(),
+        executionType: 'CONDITIONAL',
+        originalRequest: record.note ?? `conditional order ${record.id}`,
+        account: client.account.name
+    };
+    const result = await client.openOrder(order).catch(async (error) => {
+        await recordRejectedOrder({ ...entry, status: 'REJECTED', response: undefined },
+            error instanceof Error ? error.message : String(error));
+        throw error;
+    });
+    await storeOrder(result.orderId, { ...entry, status: result.status, response: result.data }, result.fills);
+    return {
+        orderId: result.orderId,
+        text: `${order.type} ${order.side} ${order.size} ${order.market}` + (order.price ? ` @ ${order.price}` : '') +
+            ` - Order ID ${result.orderId}, ${result.status}`,
+    };
+}
+
+// Reduce-only stop-loss and take-profit orders closing what the entry filled, priced off the entry price
+function buildBracketLegs(
+    entry: OrderDetails,
+    entryPrice: number,
+    size: string,
+    bracket: BracketRequest,
+    rules: MarketRules,
+): BracketLeg[] {
+    const isLong = entry.side === 'BUY';
+    const exitSide = isLong ? 'SELL' : 'BUY';
+    const direction = isLong ? 1 : -1;
+    const legs: BracketLeg[] = [];
+
+    const stopPrice = bracket.stopPrice ??
+        (bracket.stopPercent ? entryPrice * (1 - direction * bracket.stopPercent / 100) : undefined);
+    if (stopPrice) {
+        legs.push({
+            label: 'Stop-loss',
+            order: {
+                market: entry.market,
+                side: exitSide,
+                type: 'STOP_MARKET',
+                size,
+                triggerPrice: roundPrice(rules, stopPrice, 'nearest'),
+                reduceOnly: true,
+            },
+        });
+    }
+
+    const targetPrice = bracket.targetPrice ??
+        (bracket.targetPercent ? entryPrice * (1 + direction * bracket.targetPercent / 100) : undefined);
+    if (targetPrice) {
+        legs.push({
+            label: 'Take-profit',
+            order: {
+                market: entry.market,
+                side: exitSide,
+                type: 'TAKE_PROFIT_MARKET',
+                size,
+                triggerPrice: roundPrice(rules, targetPrice, 'nearest'),
+                reduceOnly: true,
+            },
+        });
+    }
+
+    return legs;
+}
+
+function formatOrderRecord(order: OrderRecord): string {
+    const filledNotional = order.fills.reduce((total, fill) => total + Number(fill.size) * Number(fill.price), 0);
+    const avgFillPrice = Number(order.filledSize) > 0 ? filledNotional / Number(order.filledSize) : undefined;
+    return `• ${order.orderId} ${new Date(order.timestamp).toISOString()}${order.account ? ` [${order.account}]` : ''} ` +
+        `${order.market} ${order.side} ${order.size} ${order.type}` +
+        ` - ${order.status}` +
+        (avgFillPrice ? `, filled ${order.filledSize} @ ${avgFillPrice.toFixed(4)}, fees ${order.fees}` : '') +
+        (order.history.at(-1)?.reason ? ` (${order.history.at(-1)!.reason})` : '');
+}
+
+function formatOrderPreview(preview: OrderPreview): string {
+    return `• Notional: ${preview.notional.toFixed(2)} USD\n` +
+        `• Estimated fees: ${preview.estimatedFee.toFixed(2)} USD\n` +
+        `• Initial margin: ${preview.initialMargin.toFixed(2)} USD ` +
+        `(free collateral ${preview.freeCollateral.toFixed(2)} -> ${preview.freeCollateralAfter.toFixed(2)})\n`;
+}
+
+function formatStrategyRecord(record: StrategyRecord): string {
+    const triggers = [
+        ...(record.intervalSeconds ? [`every ${record.intervalSeconds}s`] : []),
+        ...record.events.map((event) => `on ${event.replace('_', ' ')}`),
+    ].join(', ');
+    return `• ${record.name} [${record.status}] ${record.strategy} on ${record.markets.join(', ')} (${triggers}), account ${record.account}` +
+        (Object.keys(record.params).length ? `, params ${JSON.stringify(record.params)}` : '') +
+        (record.lastTickAt ? `, last run ${new Date(record.lastTickAt).toISOString()}` : '') +
+        `, ${record.orderIds.length} order(s)` +
+        (record.lastError ? ` - last error: ${record.lastError}` : '');
+}
+
+function formatPosition(position: Position): string {
+    return `${position.market}: ${position.side} ${Math.abs(Number(position.size))} @ ${position.average_entry_price}` +
+        ` (unrealized PnL ${Number(position.unrealized_pnl).toFixed(2)} USD)`;
+}
+
+function openOrderNotional(order: { size: string; remaining_size?: string; price?: string; trigger_price?: string }): number {
+    return Number(order.remaining_size ?? order.size) * (Number(order.price) || Number(order.trigger_price) || 0);
+}
+
+function actionError(error: unknown): ActionResult {
+    if (error instanceof RiskRejectedError) {
+        return {
+            success: false,
+            message: JSON.stringify({
+                text: "Order blocked by risk limits:\n" +
+                    error.violations.map((violation) => `• ${violation.message}`).join('\n'),
+                violations: error.violations
+            })
+        };
+    }
+    if (error instanceof ParadexApiError) {
+        return {
+            success: false,
+            message: JSON.stringify({ error: error.message, code: error.code })
+        };
+    }
+    return {
+        success: false,
+        message: JSON.stringify({
+            error: error instanceof Error ? error.message : String(error)
+        })
+    };
 }
 
 const RATE_LIMITS = {
@@ -119,18 +476,98 @@ const rateLimiter = {
 };
 
 async function main() {
-    const { config, account } = await paradexLogin();
+    const clients = await paradexLogin();
+    const [defaultClient] = clients;
+    const { config, tokens } = defaultClient;
+    // Order and fill streams of the other accounts, relayed through the market feed
+    const accountFeeds: ParadexFeed[] = [];
 
-    const refreshInterval = setInterval(async () => {
-        try {
-            account.jwtToken = await authenticate(config, account);
-        } catch (error) {
-            console.error('Auth refresh failed:', error);
+    if (config.feed?.enabled) {
+        marketFeed = new ParadexFeed(config, defaultClient.account, {
+            url: config.feed.url,
+            markets: [...config.feed.markets],
+        });
+        marketFeed.start();
+
+        for (const client of clients.slice(1)) {
+            const feed = new ParadexFeed(config, client.account, { url: config.feed.url, markets: [], privateOnly: true });
+            marketFeed.relay(feed);
+            feed.start();
+            accountFeeds.push(feed);
         }
-    }, 1000 * 60 * 3 - 3000);
+
+        // Keep the order journal in step with fills and order updates for orders we placed, on every account
+        marketFeed.subscribe(async (event) => {
+            try {
+                if (event.type !== 'fill' && event.type !== 'order') return;
+                const orderId = event.type === 'fill' ? event.data.order_id : event.data.id;
+                if (!await getOrder(orderId)) return;
+
+                if (event.type === 'fill') {
+                    await recordFill(orderId, {
+                        id: String(event.data.id),
+                        size: event.data.size,
+                        price: event.data.price,
+                        fee: event.data.fee ?? '0',
+                        timestamp: event.data.created_at ?? Date.now(),
+                    });
+                } else {
+                    await recordOrderStatus(orderId, statusFromParadexOrder(event.data), event.data.cancel_reason || undefined);
+                }
+            } catch (error) {
+                console.error('Failed to journal feed event:', error);
+            }
+        });
+    }
+
+    const strategies = new StrategyRunner(clients, {
+        filePath: path.join(config.dataDir ?? "data", "strategies.json"),
+        loadMarkets: () => getCachedMarkets(config),
+        feed: marketFeed,
+        priceMovePercent: config.feed?.priceMovePercent,
+    });
+
+    // Built either way so the status action can check on demand, polls only when enabled
+    const marginMonitor = config.margin && new MarginMonitor(clients, config.margin, {
+        loadMarkets: () => getCachedMarkets(config),
+        feed: marketFeed,
+    });
+
+    const algos = new AlgoExecutor({ feed: marketFeed });
+
+    const brackets = new BracketKeeper({ feed: marketFeed });
+
+    const alerts = new AlertManager({
+        filePath: path.join(config.dataDir ?? "data", "alerts.json"),
+        loadMarkets: () => getCachedMarkets(config),
+        pollSeconds: config.alerts?.pollSeconds ?? 30,
+        feed: marketFeed,
+    });
+
+    const conditionalOrders = new ConditionalOrderManager({
+        filePath: path.join(config.dataDir ?? "data", "conditional-orders.json"),
+        loadMarkets: () => getCachedMarkets(config),
+        pollSeconds: config.conditionalOrders?.pollSeconds ?? 10,
+        feed: marketFeed,
+        submit: async (record) => {
+            const client = clients.find((c) => c.name === record.account);
+            if (!client) {
+                throw new Error(`Account ${record.account} is no longer configured`);
+            }
+            return submitConditionalOrder(config, client, record);
+        },
+    });
 
     const cleanup = () => {
-        clearInterval(refreshInterval);
+        strategies.close();
+        algos.close();
+        brackets.close();
+        alerts.stop();
+        conditionalOrders.stop();
+        marginMonitor?.stop();
+        tokens.stop();
+        marketFeed?.stop();
+        for (const feed of accountFeeds) feed.stop();
         marketCache.clear();
         process.exit(0);
     };
@@ -138,37 +575,209 @@ async function main() {
     process.on("SIGTERM", cleanup);
     process.on("SIGINT", cleanup);
 
+    if (config.paperTrading?.enabled) {
+        console.log(`Paper trading enabled: orders are simulated locally with a balance of ${config.paperTrading.initialBalance} USDC`);
+    }
+
     try {
-        const accountInfo = await getAccountInfo(config, account);
-        if (!accountInfo) {
-            throw new Error('Failed to retrieve account information');
-        }
+        for (const client of clients) {
+            const [accountInfo, positions] = await Promise.all([client.getAccountInfo(), client.getPositions()]);
+            if (!accountInfo) {
+                throw new Error(`Failed to retrieve account information for ${client.name}`);
+            }
 
-        console.log(`Account:
+            const { parent } = client.account;
+            const unrealizedPnl = positions.reduce((total, position) => total + Number(position.unrealized_pnl), 0);
+            console.log(`Account ${client.name}${parent ? ` (subaccount of ${parent})` : ''}:
             Status: ${accountInfo.status || 'N/A'}
             Value: ${accountInfo.account_value || 'N/A'}
-            P&L: ${accountInfo.account_value && accountInfo.total_collateral ?
-                (accountInfo.account_value - accountInfo.total_collateral) : 'N/A'}
+            Unrealized P&L: ${unrealizedPnl.toFixed(2)} over ${positions.filter((p) => Number(p.size) !== 0).length} position(s)
             Free collateral: ${accountInfo.free_collateral || 'N/A'}`);
+        }
     } catch (error) {
         console.error('Failed to get account info:', error);
         cleanup();
         return;
     }
 
+    const confirmations = new ConfirmationStore<ActionResult>((config.confirmation?.ttlSeconds ?? 120) * 1000);
+    const accountNames = clients.map((client) => client.name);
+
+    // The client of the account named in the action fields or the request text, the default account otherwise
+    const resolveClient = (name: string | undefined, text: string | undefined): ParadexClient => {
+        const requested = name ?? parseAccountName(text ?? '', accountNames);
+        if (!requested) return defaultClient;
+        const client = clients.find((c) => c.name.toLowerCase() === requested.toLowerCase());
+        if (!client) {
+            throw new Error(`Unknown account '${requested}', configured accounts: ${accountNames.join(', ')}`);
+        }
+        return client;
+    };
+
+    // Every account unless the request names one, for the aggregated views
+    const resolveClients = (name: string | undefined, text: string | undefined): ParadexClient[] =>
+        name || parseAccountName(text ?? '', accountNames) ? [resolveClient(name, text)] : clients;
+
+    // Only spelled out when there is more than one account to pick from
+    const onAccount = (client: ParadexClient) => clients.length > 1 ? ` on ${client.name}` : '';
+
+    // Runs the action right away below the confirmation threshold, otherwise parks it behind a one-time token
+    const requestConfirmation = async (
+        client: ParadexClient,
+        kind: ConfirmationKind,
+        summary: string,
+        notional: number,
+        details: string,
+        execute: () => Promise<ActionResult>,
+    ): Promise<ActionResult> => {
+        if (!config.confirmation || notional < config.confirmation.minNotional) {
+            return execute();
+        }
+
+        summary += onAccount(client);
+        const pending = confirmations.create(kind, summary, execute);
+        // The token is shown in the terminal only, the model never sees it so it can't confirm for the user
+        console.log(`Confirmation token for ${summary}: ${pending.token} ` +
+            `(reply 'confirm ${pending.token}' within ${config.confirmation.ttlSeconds}s)`);
+        return {
+            success: true,
+            message: JSON.stringify({
+                text: `Confirmation required: ${summary}\n${details}` +
+                    `The user has to reply 'confirm <token>' with the one-time token printed in their terminal ` +
+                    `within ${config.confirmation.ttlSeconds}s to proceed.`,
+                confirmation: {
+                    kind,
+                    expiresAt: new Date(pending.expiresAt).toISOString()
+                }
+            })
+        };
+    };
+
+    const confirmOrders = async (
+        client: ParadexClient,
+        kind: ConfirmationKind,
+        summary: string,
+        orders: OrderDetails[],
+        execute: () => Promise<ActionResult>,
+    ): Promise<ActionResult> => {
+        const preview = await client.previewOrders(orders);
+        if (config.confirmation && preview.notional >= config.confirmation.minNotional) {
+            // Don't hand out a token for orders the risk engine would refuse anyway
+            await client.checkOrderRisk(orders);
+        }
+        return requestConfirmation(client, kind, summary, preview.notional, formatOrderPreview(preview), execute);
+    };
+
+    // Sends the reduce-only (or flipping) market orders for an adjustment and reports the realized PnL
+    const adjustPositions = async (
+        client: ParadexClient,
+        adjustment: PositionAdjustment,
+        market: string | undefined,
+        label: string,
+        originalRequest: string,
+    ): Promise<ActionResult> => {
+        const [positions, availableMarkets] = await Promise.all([
+            client.getPositions(),
+            getCachedMarkets(config),
+        ]);
+        const open = positions.filter((position) =>
+            Number(position.size) !== 0 && (!market || position.market === market));
+        if (!open.length) {
+            return {
+                success: false,
+                message: JSON.stringify({
+                    text: (market ? `There is no open ${market} position` : "No open positions") + onAccount(client)
+                })
+            };
+        }
+
+        const plans: PositionOrderPlan[] = [];
+        for (const position of open) {
+            const marketInfo = availableMarkets.find((m) => m.symbol === position.market);
+            const plan = marketInfo
+                ? planPositionOrder(position, marketInfo.order_size_increment, adjustment)
+                : { error: `Market ${position.market} is not available` };
+            if ('error' in plan) {
+                return {
+                    success: false,
+                    message: JSON.stringify({ text: plan.error })
+                };
+            }
+            plans.push(plan);
+        }
+        const orders = plans.map((plan) => plan.order);
+
+        const execute = async (): Promise<ActionResult> => {
+            try {
+                const results = await client.executeBatchOrders(orders);
+                await journalBatchResults(orders, results, label.toUpperCase().replace(/\s+/g, '_'), originalRequest, client.account.name);
+
+                // Market orders may not report a fill price yet, fall back to the last price
+                const latestMarkets = await getCachedMarkets(config);
+                let totalPnl = 0;
+                const lines = results.map((result, i) => {
+                    const order = orders[i];
+                    if (result.error) {
+                        return `• ${order.market}: ${order.side} ${order.size} - ${result.status} (${result.error})`;
+                    }
+                    const fillPrice = Number(result.data?.avg_fill_price);
+                    const latest = latestMarkets.find((m) => m.symbol === order.market);
+                    const exitPrice = fillPrice || Number(latest?.last_price || latest?.mark_price || 0);
+                    const pnl = realizedPnl(plans[i], exitPrice);
+                    totalPnl += pnl;
+                    return `• ${order.market}: ${order.side} ${order.size} - Order ID ${result.orderId}, ${result.status}, ` +
+                        `realized PnL ${fillPrice ? '' : '~'}${pnl.toFixed(2)} USD`;
+                });
+
+                return {
+                    success: results.some((result) => result.orderId),
+                    message: JSON.stringify({
+                        text: `${label}${onAccount(client)}:\n${lines.join('\n')}\nTotal realized PnL: ${totalPnl.toFixed(2)} USD`,
+                        results
+                    })
+                };
+            } catch (error) {
+                console.error(`${label} error:`, error);
+                return actionError(error);
+            }
+        };
+
+        const summary = `${label.toLowerCase()} ` +
+            plans.map((plan) => `${plan.order.market} (${plan.order.side} ${plan.order.size})`).join(', ');
+        return confirmOrders(client, plans.length > 1 ? 'batch' : 'order', summary, orders, execute);
+    };
+
     const getAccountInfoAction = action({
         name: "paradex-get-account-info",
-        description: "Get account information including value and free collateral",
+        description: "Get account information including value and free collateral, " +
+            "for one account or summed over every configured account and subaccount",
         schema: z.object({
-            text: z.string().describe("Natural language request for account info")
+            text: z.string().describe("Natural language request for account info"),
+            account: accountField.describe("Only this account or subaccount, all accounts when empty")
         }),
-        handler: async (_call, _ctx, _agent) => {
+        handler: async (call, _ctx, _agent) => {
             try {
-                const accountInfo = await getAccountInfo(config, account);
+                const selected = resolveClients(call.data.account, call.data.text);
+                const infos = await Promise.all(selected.map((client) => client.getAccountInfo()));
+                if (selected.length === 1) {
+                    const [accountInfo] = infos;
+                    return {
+                        success: true,
+                        message: JSON.stringify({
+                            text: `Account Status: ${accountInfo.status}\nValue: ${accountInfo.account_value}\nFree Collateral: ${accountInfo.free_collateral}`
+                        })
+                    };
+                }
+
+                const totalValue = infos.reduce((total, info) => total + Number(info.account_value ?? 0), 0);
+                const totalFree = infos.reduce((total, info) => total + Number(info.free_collateral ?? 0), 0);
                 return {
                     success: true,
                     message: JSON.stringify({
-                        text: `Account Status: ${accountInfo.status}\nValue: ${accountInfo.account_value}\nFree Collateral: ${accountInfo.free_collateral}`
+                        text: infos.map((info, i) =>
+                            `${selected[i].name}${selected[i].account.parent ? ` (subaccount of ${selected[i].account.parent})` : ''}: ` +
+                            `Status ${info.status}, Value ${info.account_value}, Free Collateral ${info.free_collateral}`
+                        ).join('\n') + `\nTotal Value: ${totalValue.toFixed(2)}\nTotal Free Collateral: ${totalFree.toFixed(2)}`
                     })
                 };
             } catch (error) {
@@ -182,142 +791,205 @@ async function main() {
 
     const openOrderAction = action({
         name: "paradex-open-order",
-        description: "Open a market or limit order on Paradex. Examples: 'buy 0.1 ETH at market price' or 'buy 0.5 BTC at limit 40000'",
+        description: "Open a market, limit, stop or take-profit order on Paradex, optionally with a stop-loss and take-profit bracket. " +
+            "Fill in the order fields directly. Size can be given in the base currency (size) or in USD (notional). " +
+            "A free-text order in `text` is only used for fields left empty, e.g. 'buy 0.1 ETH at limit 3000', 'sell $500 of SOL' " +
+            "or 'buy 0.1 ETH at market with stop 5% and target 10%'",
         schema: z.object({
-            text: z.string().describe("Natural language description of the order you want to place")
+            text: z.string().optional().describe("Free-text order, only used for fields not given below"),
+            ...orderFields,
+            stopLossPercent: z.number().positive().optional().describe("Attach a reduce-only stop-loss this many percent from the entry"),
+            stopLossPrice: z.string().optional().describe("Attach a reduce-only stop-loss triggering at this price"),
+            takeProfitPercent: z.number().positive().optional().describe("Attach a reduce-only take-profit this many percent from the entry"),
+            takeProfitPrice: z.string().optional().describe("Attach a reduce-only take-profit triggering at this price"),
+            bracket: z.boolean().optional().describe("Attach a stop-loss from the market's risk band and a take-profit at twice that distance"),
+            account: accountField
         }),
         handler: async (call, _ctx, _agent) => {
             try {
-                const text = call.data.text.toLowerCase();
-
-                const orderPattern = /\b(buy|sell)\s+(\d+\.?\d*)\s+([a-zA-Z0-9]+)(?:\s+(?:at|@)\s+(market|limit)\s*(?:price\s*)?(?:(\d+\.?\d*))?)?/i;
-                const match = text.match(orderPattern);
+                const {
+                    text,
+                    stopLossPercent,
+                    stopLossPrice,
+                    takeProfitPercent,
+                    takeProfitPrice,
+                    bracket: wantsBracket,
+                    account: accountName,
+                    ...fields
+                } = call.data;
+                const client = resolveClient(accountName, text);
+                const parsed = text ? parseOrderText(text) : undefined;
+                const request = mergeOrderRequest(parsed?.order, fields);
+                const originalRequest = text ?? JSON.stringify(call.data);
 
-                if (!match) {
+                const built = buildOrderDetails(request, await getCachedMarkets(config));
+                if ('error' in built) {
                     return {
                         success: false,
-                        message: JSON.stringify({
-                            text: "Invalid order format. Examples:\n" +
-                                "'buy 0.1 ETH at market price'\n" +
-                                "'sell 0.5 BTC at limit 40000'"
-                        })
+                        message: JSON.stringify({ text: built.error })
                     };
                 }
+                const { rules, lastPrice } = built;
 
-                const [, side, size, baseToken, orderType, limitPrice] = match;
-                const marketSymbol = `${baseToken.toUpperCase()}-USD-PERP`;
-
-                const availableMarkets = await getCachedMarkets(config);
-                const market = availableMarkets.find((m: { symbol: string }) => m.symbol === marketSymbol);
-
-                if (!market) {
+                const protectedOrder = await protectMarketOrder(config, built.order, rules);
+                if ('error' in protectedOrder) {
                     return {
                         success: false,
-                        message: JSON.stringify({
-                            text: `Market ${marketSymbol} is not available. Available markets:\n` +
-                                availableMarkets.map((m: { symbol: string }) => m.symbol).join(", ")
-                        })
+                        message: JSON.stringify({ text: protectedOrder.error })
                     };
                 }
+                const { order: orderDetails, note: slippageNote, text: slippageText } = protectedOrder;
 
-                const sizeNum = Number(size);
-                const sizeIncrement = Number(market.order_size_increment);
-                const adjustedSize = Math.max(
-                    sizeIncrement,
-                    Math.ceil(sizeNum / sizeIncrement) * sizeIncrement
-                ).toString();
-
-                const orderDetails: Record<string, string> = {
-                    market: marketSymbol,
-                    side: side.toUpperCase(),
-                    size: adjustedSize,
-                    timeInForceType: orderType.toLowerCase() === 'market' ? 'IOC' : 'GTC',
-                    type: orderType.toLowerCase() === 'limit' ? 'LIMIT' : 'MARKET'
+                const bracketRequest: BracketRequest = {
+                    ...parsed?.bracket,
+                    ...(stopLossPercent !== undefined && { stopPercent: stopLossPercent, wantsStop: true }),
+                    ...(stopLossPrice && { stopPrice: Number(stopLossPrice), wantsStop: true }),
+                    ...(takeProfitPercent !== undefined && { targetPercent: takeProfitPercent, wantsTarget: true }),
+                    ...(takeProfitPrice && { targetPrice: Number(takeProfitPrice), wantsTarget: true }),
+                    ...(wantsBracket && { wantsStop: true, wantsTarget: true }),
                 };
 
-                if (orderDetails.type === 'LIMIT') {
-                    if (!limitPrice) {
+                let bracket: BracketRequest | undefined;
+                if (bracketRequest.wantsStop || bracketRequest.wantsTarget) {
+                    const { stopPercent, stopPrice, targetPercent, targetPrice } = bracketRequest;
+                    bracket = { stopPercent, stopPrice, targetPercent, targetPrice };
+                    if (bracketRequest.wantsStop && !stopPercent && !stopPrice) {
+                        const [snapshot] = await getCachedMarkets(config, orderDetails.market);
+                        const analysis = await analyzeMarket(config, orderDetails.market, undefined, snapshot);
+                        bracket.stopPercent = analysis.positionLimits.riskBand.stopLossPercent;
+                    }
+                    if (bracketRequest.wantsTarget && !targetPercent && !targetPrice && bracket.stopPercent) {
+                        // Default to a 1:2 risk/reward target
+                        bracket.targetPercent = bracket.stopPercent * 2;
+                    }
+                    if (bracketRequest.wantsTarget && !bracket.targetPercent && !bracket.targetPrice) {
                         return {
                             success: false,
                             message: JSON.stringify({
-                                text: "Limit orders require a price. Example: 'buy 0.1 ETH at limit 3000'"
+                                text: 'Invalid bracket: a take-profit needs a price or a percentage, or a stop-loss to set it at twice the risk.'
                             })
                         };
                     }
 
-                    const tickSize = Number(market.tick_size);
-                    const priceNum = Number(limitPrice);
-                    orderDetails.price = (Math.ceil(priceNum / tickSize) * tickSize).toString();
-
-                    const currentMarket = await getCachedMarkets(config, marketSymbol);
-                    const lastPrice = Number(currentMarket[0]?.last_price || 0);
-
-                    if (lastPrice && Math.abs((priceNum - lastPrice) / lastPrice) > 0.1) {
+                    const estimatedEntry = Number(orderDetails.price || orderDetails.triggerPrice || lastPrice);
+                    const isLong = orderDetails.side === 'BUY';
+                    if ((bracket.stopPrice && (isLong ? bracket.stopPrice >= estimatedEntry : bracket.stopPrice <= estimatedEntry)) ||
+                        (bracket.targetPrice && (isLong ? bracket.targetPrice <= estimatedEntry : bracket.targetPrice >= estimatedEntry))) {
                         return {
                             success: false,
                             message: JSON.stringify({
-                                text: `Warning: Your limit price (${orderDetails.price}) deviates significantly from the last price (${lastPrice}). Please confirm the price.`
+                                text: `Invalid bracket: for a ${isLong ? 'long' : 'short'} entry near ${estimatedEntry} the stop must be ` +
+                                    `${isLong ? 'below' : 'above'} and the target ${isLong ? 'above' : 'below'} the entry price.`
                             })
                         };
                     }
                 }
+                const execute = async (): Promise<ActionResult> => {
+                    try {
+                        const result = await client.openOrder(orderDetails).catch(async (error) => {
+                            await recordRejectedOrder({
+                                market: orderDetails.market,
+                                side: orderDetails.side as 'BUY' | 'SELL',
+                                type: orderDetails.type,
+                                size: orderDetails.size,
+                                price: orderDetails.price,
+                                triggerPrice: orderDetails.triggerPrice,
+                                timestamp: Date.now(),
+                                status: 'REJECTED',
+                                response: undefined,
+                                executionType: orderDetails.type,
+                                originalRequest,
+                                account: client.account.name
+                            }, error instanceof Error ? error.message : String(error));
+                            throw error;
+                        });
 
-                try {
-                    const result = await openOrder(config, account, orderDetails);
-
-                    await Promise.all([
-                        storeOrder(result.orderId, {
+                        const storeEntry = storeOrder(result.orderId, {
                             market: orderDetails.market,
                             side: orderDetails.side as 'BUY' | 'SELL',
-                            type: orderDetails.type as 'MARKET' | 'LIMIT',
+                            type: orderDetails.type,
                             size: orderDetails.size,
                             price: orderDetails.price,
+                            triggerPrice: orderDetails.triggerPrice,
                             timestamp: Date.now(),
                             status: result.status,
                             response: result.data,
                             executionType: orderDetails.type,
-                            originalRequest: text
-                        }),
-                        debouncedAuthRefresh(config, account)
-                    ]);
+                            originalRequest,
+                            account: client.account.name
+                        }, result.fills);
 
-                    return {
-                        success: true,
-                        message: JSON.stringify({
-                            text: `${orderDetails.type} order opened successfully:\n` +
-                                `• Order ID: ${result.orderId}\n` +
-                                `• ${side.toUpperCase()} ${adjustedSize} ${baseToken}\n` +
-                                (orderDetails.type === 'LIMIT' ? `• Price: ${orderDetails.price}\n` : '') +
-                                `• Status: ${result.status}`
-                        })
-                    };
-                } catch (error) {
-                    console.error('Order execution error:', error);
-                    throw error;
-                }
-            } catch (error) {
-                return {
-                    success: false,
-                    message: JSON.stringify({
-                        error: error instanceof Error ? error.message : String(error)
-                    })
+                        let bracketText = '';
+                        if (bracket) {
+                            const levels = bracket;
+                            // A resting entry has no position to protect yet, its legs wait for the fill
+                            const event = await brackets.hold(client, {
+                                entryOrderId: result.orderId,
+                                account: client.name,
+                                market: orderDetails.market,
+                                originalRequest,
+                                createdAt: Date.now(),
+                                build: (entryPrice, size) => buildBracketLegs(orderDetails, entryPrice, size, levels, rules),
+                            }, result.data);
+                            if (!event) {
+                                bracketText = '• Stop-loss/take-profit: placed once the entry fills, sized to the fill\n';
+                            } else if (event.type === 'placed') {
+                                bracketText = formatLegResults(event.legs, event.results) + '\n';
+                            } else {
+                                bracketText = `• Stop-loss/take-profit not placed: ${event.type === 'dropped' ? event.reason : event.error}\n`;
+                            }
+                        }
+
+                        await storeEntry;
+
+                        return {
+                            success: true,
+                            message: JSON.stringify({
+                                text: `${orderDetails.type} order opened successfully${onAccount(client)}:\n` +
+                                    `• Order ID: ${result.orderId}\n` +
+                                    `• ${orderDetails.side} ${orderDetails.size} ${orderDetails.market}\n` +
+                                    (orderDetails.price ? `• Price: ${orderDetails.price}\n` : '') +
+                                    (orderDetails.triggerPrice ? `• Trigger: ${orderDetails.triggerPrice}\n` : '') +
+                                    `• Status: ${result.status}\n` +
+                                    slippageText +
+                                    bracketText
+                            })
+                        };
+                    } catch (error) {
+                        console.error('Order execution error:', error);
+                        return actionError(error);
+                    }
                 };
+
+                const previewLegs = bracket
+                    ? buildBracketLegs(orderDetails, Number(orderDetails.price || orderDetails.triggerPrice || lastPrice), orderDetails.size, bracket, rules)
+                    : [];
+                const summary = `${orderDetails.type} ${orderDetails.side} ${orderDetails.size} ${orderDetails.market}` +
+                    (orderDetails.price ? ` @ ${orderDetails.price}` : '') +
+                    (orderDetails.triggerPrice ? ` trigger ${orderDetails.triggerPrice}` : '') +
+                    slippageNote +
+                    previewLegs.map((leg) => `, ${leg.label.toLowerCase()} @ ${leg.order.triggerPrice}`).join('');
+                return confirmOrders(client, 'order', summary, [orderDetails], execute);
+            } catch (error) {
+                return actionError(error);
             }
         }
     });
 
     const cancelOrderAction = action({
         name: "paradex-cancel-order",
-        description: "Cancel an existing order. You can say something like 'cancel order 123' or 'remove order ABC'",
+        description: "Cancel an existing order by its ID. You can also say something like 'cancel order 123'",
         schema: z.object({
-            text: z.string().describe("Natural language request to cancel an order")
+            text: z.string().optional().describe("Free-text cancel request, only used when orderId is not given"),
+            orderId: z.string().optional().describe("ID of the order to cancel"),
+            account: accountField
         }),
         handler: async (call, _ctx, _agent) => {
             try {
-                const text = call.data.text.toLowerCase();
-                const orderIdMatch = text.match(/(?:order|#)\s*([a-zA-Z0-9]+)/);
+                const client = resolveClient(call.data.account, call.data.text);
+                const orderId = call.data.orderId ?? parseOrderId(call.data.text ?? '');
 
-                if (!orderIdMatch) {
+                if (!orderId) {
                     return {
                         success: false,
                         message: JSON.stringify({
@@ -326,109 +998,419 @@ async function main() {
                     };
                 }
 
-                const orderId = orderIdMatch[1];
-                await cancelOrder(config, account, orderId);
-                return {
-                    success: true,
-                    message: JSON.stringify({
-                        text: `Order ${orderId} has been canceled successfully`
-                    })
+                const openOrders = await client.getOpenOrders() ?? [];
+                const order = openOrders.find((o) => o.id === orderId);
+                const notional = order ? openOrderNotional(order) : 0;
+
+                const execute = async (): Promise<ActionResult> => {
+                    try {
+                        await client.cancelOrder(orderId);
+                        if (await getOrder(orderId)) {
+                            await recordOrderStatus(orderId, 'CANCELLED', 'USER_CANCELED');
+                        }
+                        return {
+                            success: true,
+                            message: JSON.stringify({
+                                text: `Order ${orderId} has been canceled successfully`
+                            })
+                        };
+                    } catch (error) {
+                        return actionError(error);
+                    }
                 };
+
+                return requestConfirmation(
+                    client,
+                    'cancel',
+                    order ? `cancel order ${orderId} (${order.side} ${order.size} ${order.market} ${order.type})` : `cancel order ${orderId}`,
+                    notional,
+                    order ? `• Notional: ${notional.toFixed(2)} USD\n` : '',
+                    execute,
+                );
             } catch (error) {
-                return {
-                    success: false,
-                    message: JSON.stringify({
-                        text: error instanceof Error ? error.message : String(error)
-                    })
-                };
+                return actionError(error);
             }
         },
     });
 
-    const listOpenOrdersAction = action({
-        name: "paradex-list-open-orders",
-        description: "Show your current open orders",
+    const cancelAllOrdersAction = action({
+        name: "paradex-cancel-all-orders",
+        description: "Cancel every open order, or only those matching a market, side, minimum age or minimum distance from the mark price, " +
+            "e.g. 'cancel all ETH buys' or 'cancel orders more than 5% away from the mark'",
         schema: z.object({
-            text: z.string().describe("Natural language request to view open orders")
+            text: z.string().optional().describe("Free-text request, kept with the order history"),
+            market: z.string().optional().describe("Only orders in this market, symbol or base token"),
+            side: z.enum(['BUY', 'SELL']).optional().describe("Only orders on this side"),
+            olderThanMinutes: z.number().nonnegative().optional().describe("Only orders placed at least this many minutes ago"),
+            minDistancePercent: z.number().nonnegative().optional()
+                .describe("Only orders priced at least this many percent away from the mark price"),
+            account: accountField
         }),
-        handler: async (_call, _ctx, _agent) => {
+        handler: async (call, _ctx, _agent) => {
             try {
-                const orders = await getOpenOrders(config, account);
-                return {
-                    success: true,
-                    message: JSON.stringify({
-                        text: orders.length ?
-                            `Your Open Orders:\n${orders.map((order: ParadexOrder) =>
-                                `• ${order.market}: ${order.side} ${order.size} @ ${order.price} (${order.type})`).join('\n')}` :
-                            "You don't have any open orders at the moment."
-                    })
-                };
-            } catch (error) {
-                return {
-                    success: false,
-                    message: JSON.stringify({ error: String(error) })
-                };
-            }
-        }
-    });
+                const client = resolveClient(call.data.account, call.data.text);
+                const market = call.data.market
+                    ? resolveMarket(call.data.market, await getCachedMarkets(config)) ?? call.data.market.toUpperCase()
+                    : undefined;
+                const orders = await client.findOpenOrders({
+                    market,
+                    side: call.data.side,
+                    minAgeMs: call.data.olderThanMinutes !== undefined ? call.data.olderThanMinutes * 60000 : undefined,
+                    minDistancePercent: call.data.minDistancePercent,
+                });
 
-    const listAvailableMarketsAction = action({
-        name: "paradex-list-available-markets",
-        description: "Show available trading markets",
-        schema: z.object({
-            text: z.string().describe("Natural language request to view available markets")
-        }),
-        handler: async (_call, _ctx, _agent) => {
-            try {
-                const markets = await listAvailableMarkets(config);
-                if (!markets || markets.length === 0) {
+                if (!orders.length) {
                     return {
                         success: true,
-                        message: JSON.stringify({
-                            text: "No trading markets are available at the moment."
-                        })
+                        message: JSON.stringify({ text: `No open orders match these filters${onAccount(client)}.` })
                     };
                 }
 
-                const marketList = markets
-                    .map((market: { symbol: string }) => market.symbol)
-                    .join("\n• ");
+                const execute = async (): Promise<ActionResult> => {
+                    try {
+                        const results = await client.cancelOrders(orders);
+                        await Promise.all(results.map(async (result) => {
+                            if (result.status === 'CANCELLED' && await getOrder(result.orderId)) {
+                                await recordOrderStatus(result.orderId, 'CANCELLED', 'USER_CANCELED');
+                            }
+                        }));
 
-                return {
-                    success: true,
-                    message: JSON.stringify({
-                        text: `Available Trading Markets:\n• ${marketList}`
-                    })
+                        const cancelled = results.filter((result) => result.status === 'CANCELLED').length;
+                        return {
+                            success: cancelled > 0,
+                            message: JSON.stringify({
+                                text: `Cancelled ${cancelled} of ${results.length} orders:\n` + results.map((result) =>
+                                    `• ${result.orderId} ${result.market} - ${result.status}` + (result.error ? ` (${result.error})` : '')
+                                ).join('\n'),
+                                results
+                            })
+                        };
+                    } catch (error) {
+                        return actionError(error);
+                    }
                 };
+
+                const notional = orders.reduce((total, order) => total + openOrderNotional(order), 0);
+                return requestConfirmation(
+                    client,
+                    'cancel',
+                    `cancel ${orders.length} open orders`,
+                    notional,
+                    orders.map((order) => `• ${order.id} ${order.side} ${order.size} ${order.market} ${order.type}`).join('\n') + '\n',
+                    execute,
+                );
             } catch (error) {
-                return {
-                    success: false,
-                    message: JSON.stringify({
-                        error: error instanceof Error ? error.message : String(error)
-                    })
-                };
+                return actionError(error);
             }
         }
     });
 
-    const getPositionsAction = action({
-        name: "paradex-get-positions",
-        description: "Show your current trading positions",
+    const batchOrdersAction = action({
+        name: "paradex-batch-orders",
+        description: "Place several market or limit orders at once. The batch passes the risk checks as a whole " +
+            "and is confirmed with a single token when it is large",
         schema: z.object({
-            text: z.string().describe("Natural language request to view positions")
+            text: z.string().optional().describe("Natural language description of the batch, kept with the order history"),
+            orders: z.array(z.object(orderFields).extend({
+                market: z.string().describe("Market symbol or base token, e.g. ETH-USD-PERP or ETH"),
+                side: z.enum(['BUY', 'SELL'])
+            })).min(1).describe("Orders to place"),
+            account: accountField.describe("Account or subaccount the whole batch is sent from, defaults to the main account")
         }),
-        handler: async (_call, _ctx, _agent) => {
+        handler: async (call, _ctx, _agent) => {
             try {
-                const positions = await getPositions(config, account);
-                return {
-                    success: true,
-                    message: JSON.stringify({
-                        text: positions.length ?
-                            `Current positions:\n${positions.map((p: { market: string; size: string; price: string }) =>
-                                `${p.market}: ${p.size} @ ${p.price}`).join('\n')}` :
-                            "No open positions"
-                    })
-                };
+                const client = resolveClient(call.data.account, call.data.text);
+                const availableMarkets = await getCachedMarkets(config);
+                const orders: OrderDetails[] = [];
+
+                for (const requested of call.data.orders) {
+                    const built = buildOrderDetails(mergeOrderRequest(undefined, requested), availableMarkets);
+                    if ('error' in built) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({ text: `${requested.side} ${requested.market}: ${built.error}` })
+                        };
+                    }
+                    orders.push(built.order);
+                }
+
+                const execute = async (): Promise<ActionResult> => {
+                    try {
+                        const results = await client.executeBatchOrders(orders);
+                        await journalBatchResults(orders, results, 'BATCH', call.data.text ?? JSON.stringify(call.data.orders), client.account.name);
+
+                        return {
+                            success: results.some((result) => result.orderId),
+                            message: JSON.stringify({
+                                text: `Batch results${onAccount(client)}:\n` + results.map((result, i) =>
+                                    `• ${orders[i].side} ${orders[i].size} ${orders[i].market}` +
+                                    (orders[i].price ? ` @ ${orders[i].price}` : '') + ' - ' +
+                                    (result.error ? `${result.status} (${result.error})` : `Order ID ${result.orderId}, ${result.status}`)
+                                ).join('\n'),
+                                results
+                            })
+                        };
+                    } catch (error) {
+                        console.error('Batch execution error:', error);
+                        return actionError(error);
+                    }
+                };
+
+                return confirmOrders(client, 'batch', `batch of ${orders.length} orders`, orders, execute);
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const confirmAction = action({
+        name: "paradex-confirm",
+        description: "Execute a pending order, cancel or batch after the user replies 'confirm <token>' with the token printed in their terminal. " +
+            "The token is read from the user's last message, so only call this right after they sent it",
+        schema: z.object({}),
+        handler: async (_call, ctx, _agent) => {
+            try {
+                // Only the last line the user typed counts, never a token filled in by the model
+                const lastMessage = ctx.memory.inputs.filter((input) => input.type === 'cli:message').at(-1);
+                const token = parseConfirmationToken(lastMessage?.data?.text ?? '');
+                if (!token) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({
+                            text: "The user's last message has no confirmation token, they have to reply for example 'confirm 1A2B3C4D'"
+                        })
+                    };
+                }
+
+                const pending = confirmations.take(token);
+                console.log(`Confirmed ${pending.kind}: ${pending.summary}`);
+                return await pending.execute();
+            } catch (error) {
+                if (error instanceof ConfirmationError) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: error.message, code: error.code })
+                    };
+                }
+                return actionError(error);
+            }
+        }
+    });
+
+    const resolvePositionMarket = async (market: string | undefined, text: string | undefined) => {
+        const markets = await getCachedMarkets(config);
+        return market ? resolveMarket(market, markets) : findMarketInText(text ?? '', markets);
+    };
+
+    const closePositionAction = action({
+        name: "paradex-close-position",
+        description: "Close a position fully or by a percentage with a reduce-only market order, e.g. 'close my ETH position' or 'close 50% of BTC'",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: z.string().optional().describe("Market symbol or base token of the position, e.g. ETH"),
+            percent: z.number().positive().max(100).optional().describe("Share of the position to close, defaults to 100"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const market = await resolvePositionMarket(call.data.market, call.data.text);
+                if (!market) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: "Please specify which position to close. For example: 'close 50% of ETH'" })
+                    };
+                }
+                const percent = call.data.percent ?? parsePercent(call.data.text ?? '') ?? 100;
+                return await adjustPositions(resolveClient(call.data.account, call.data.text), { kind: 'close', percent }, market,
+                    percent === 100 ? 'Close position' : `Close ${percent}% of position`,
+                    call.data.text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const reducePositionAction = action({
+        name: "paradex-reduce-position",
+        description: "Reduce a position down to a target size with a reduce-only market order, e.g. 'reduce ETH to 0.5'",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: z.string().optional().describe("Market symbol or base token of the position, e.g. ETH"),
+            targetSize: z.number().nonnegative().optional().describe("Position size to keep, in the base currency"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const market = await resolvePositionMarket(call.data.market, call.data.text);
+                const targetSize = call.data.targetSize ?? parseTargetSize(call.data.text ?? '');
+                if (!market || targetSize === undefined) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: "Please specify the position and the size to keep. For example: 'reduce ETH to 0.5'" })
+                    };
+                }
+                return await adjustPositions(resolveClient(call.data.account, call.data.text), { kind: 'reduce', targetSize }, market, 'Reduce position',
+                    call.data.text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const flipPositionAction = action({
+        name: "paradex-flip-position",
+        description: "Flip a position to the same size in the opposite direction, e.g. 'flip my SOL long to a short'",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used when market is not given"),
+            market: z.string().optional().describe("Market symbol or base token of the position, e.g. SOL"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const market = await resolvePositionMarket(call.data.market, call.data.text);
+                if (!market) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: "Please specify which position to flip. For example: 'flip SOL'" })
+                    };
+                }
+                return await adjustPositions(resolveClient(call.data.account, call.data.text), { kind: 'flip' }, market, 'Flip position',
+                    call.data.text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const closeAllPositionsAction = action({
+        name: "paradex-close-all-positions",
+        description: "Emergency flatten: close every open position with reduce-only market orders",
+        schema: z.object({
+            text: z.string().optional().describe("Natural language request to close all positions"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, call.data.text);
+                return await adjustPositions(client, { kind: 'close', percent: 100 }, undefined, 'Close all positions',
+                    call.data.text ?? 'close all positions');
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const listOpenOrdersAction = action({
+        name: "paradex-list-open-orders",
+        description: "Show your current open orders",
+        schema: z.object({
+            text: z.string().describe("Natural language request to view open orders"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, call.data.text);
+                const orders = await client.getOpenOrders();
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: orders.length ?
+                            `Your Open Orders${onAccount(client)}:\n${orders.map((order: ParadexOrder) =>
+                                `• ${order.market}: ${order.side} ${order.size} @ ${order.price} (${order.type})`).join('\n')}` :
+                            "You don't have any open orders at the moment."
+                    })
+                };
+            } catch (error) {
+                return {
+                    success: false,
+                    message: JSON.stringify({ error: String(error) })
+                };
+            }
+        }
+    });
+
+    const listAvailableMarketsAction = action({
+        name: "paradex-list-available-markets",
+        description: "Show available trading markets",
+        schema: z.object({
+            text: z.string().describe("Natural language request to view available markets")
+        }),
+        handler: async (_call, _ctx, _agent) => {
+            try {
+                const markets = await listAvailableMarkets(config);
+                if (!markets || markets.length === 0) {
+                    return {
+                        success: true,
+                        message: JSON.stringify({
+                            text: "No trading markets are available at the moment."
+                        })
+                    };
+                }
+
+                const marketList = markets
+                    .map((market: { symbol: string }) => market.symbol)
+                    .join("\n• ");
+
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Available Trading Markets:\n• ${marketList}`
+                    })
+                };
+            } catch (error) {
+                return {
+                    success: false,
+                    message: JSON.stringify({
+                        error: error instanceof Error ? error.message : String(error)
+                    })
+                };
+            }
+        }
+    });
+
+    const getPositionsAction = action({
+        name: "paradex-get-positions",
+        description: "Show your current trading positions, for one account or across every configured account and subaccount",
+        schema: z.object({
+            text: z.string().describe("Natural language request to view positions"),
+            account: accountField.describe("Only this account or subaccount, all accounts when empty")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const selected = resolveClients(call.data.account, call.data.text);
+                const perAccount = await Promise.all(selected.map((client) => client.getPositions()));
+                if (selected.length === 1) {
+                    const [positions] = perAccount;
+                    return {
+                        success: true,
+                        message: JSON.stringify({
+                            text: positions.length ?
+                                `Current positions:\n${positions.map(formatPosition).join('\n')}` :
+                                "No open positions"
+                        })
+                    };
+                }
+
+                // Net exposure per market across the accounts, shorts count negative
+                const netSizes = new Map<string, number>();
+                const sections = perAccount.map((positions, i) => {
+                    const open = positions.filter((p) => Number(p.size) !== 0);
+                    for (const position of open) {
+                        netSizes.set(position.market, (netSizes.get(position.market) ?? 0) + signedPositionSize(position));
+                    }
+                    return `${selected[i].name}:\n` + (open.length
+                        ? open.map((p) => `• ${formatPosition(p)}`).join('\n')
+                        : '• No open positions');
+                });
+
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: sections.join('\n') + (netSizes.size
+                            ? `\nNet across accounts:\n${[...netSizes].map(([market, size]) => `• ${market}: ${size}`).join('\n')}`
+                            : '')
+                    })
+                };
             } catch (error) {
                 return {
                     success: false,
@@ -440,40 +1422,71 @@ async function main() {
 
     const getOrderHistoryAction = action({
         name: "paradex-get-order-history",
-        description: "Retrieve details of a specific order by ID",
+        description: "Look up an order by ID, or list past orders filtered by market, side, status and date range",
         schema: z.object({
-            text: z.string().describe("Natural language request to get order details, including order ID")
+            text: z.string().optional().describe("Natural language request for order history, e.g. 'show order 123' or 'my filled ETH buys this week'"),
+            orderId: z.string().optional().describe("Order ID to look up"),
+            market: z.string().optional().describe("Market symbol or base token, e.g. ETH-USD-PERP or ETH"),
+            side: z.enum(['BUY', 'SELL']).optional().describe("Only orders on this side"),
+            status: z.enum(['NEW', 'OPEN', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'REJECTED']).optional()
+                .describe("Only orders currently in this status"),
+            from: z.string().optional().describe("Start of the date range, ISO 8601 (e.g. 2024-05-01)"),
+            to: z.string().optional().describe("End of the date range, ISO 8601"),
+            limit: z.number().int().positive().optional().describe("Maximum number of orders to return, defaults to 20"),
+            account: z.string().optional().describe("Only orders sent from this account or subaccount")
         }),
         handler: async (call, _ctx, _agent) => {
             try {
-                const text = call.data.text.toLowerCase();
-                const orderIdMatch = text.match(/(?:order|#)\s*([a-zA-Z0-9]+)/);
+                const orderId = call.data.orderId ?? parseOrderId(call.data.text ?? '');
+
+                if (orderId) {
+                    const orderDetails = await getOrder(orderId);
+
+                    if (!orderDetails) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({
+                                text: `No history found for order ${orderId}`
+                            })
+                        };
+                    }
 
-                if (!orderIdMatch) {
                     return {
-                        success: false,
+                        success: true,
                         message: JSON.stringify({
-                            text: "Please specify the order ID. For example: 'show order 123'"
+                            text: `Order ${orderId} details:\n${JSON.stringify(orderDetails, null, 2)}`
                         })
                     };
                 }
 
-                const orderId = orderIdMatch[1];
-                const orderDetails = await getOrder(orderId);
-
-                if (!orderDetails) {
+                const from = call.data.from ? Date.parse(call.data.from) : undefined;
+                const to = call.data.to ? Date.parse(call.data.to) : undefined;
+                if (Number.isNaN(from) || Number.isNaN(to)) {
                     return {
                         success: false,
                         message: JSON.stringify({
-                            text: `No history found for order ${orderId}`
+                            text: "Invalid date range. Use ISO 8601 dates, for example '2024-05-01' or '2024-05-01T12:00:00Z'"
                         })
                     };
                 }
 
+                const accountFilter = call.data.account ?? parseAccountName(call.data.text ?? '', accountNames);
+                const orders = await queryOrders({
+                    account: accountFilter && resolveClient(accountFilter, undefined).account.name,
+                    market: call.data.market ? resolveMarket(call.data.market, await getCachedMarkets(config)) ?? call.data.market.toUpperCase() : undefined,
+                    side: call.data.side,
+                    status: call.data.status as OrderStatus | undefined,
+                    from,
+                    to,
+                    limit: call.data.limit ?? 20,
+                });
+
                 return {
                     success: true,
                     message: JSON.stringify({
-                        text: `Order ${orderId} details:\n${JSON.stringify(orderDetails, null, 2)}`
+                        text: orders.length ?
+                            `Order history:\n${orders.map(formatOrderRecord).join('\n')}` :
+                            "No orders match these filters."
                     })
                 };
             } catch (error) {
@@ -489,40 +1502,52 @@ async function main() {
 
     const analyzeMarketAction = action({
         name: "paradex-analyze-market",
-        description: "Analyze a specific market and provide trading recommendations",
+        description: "Analyze a specific market from its candles (EMA crossover, SMA trend, RSI, VWAP, ATR, volume) " +
+            "and funding history, and provide a trading recommendation",
         schema: z.object({
-            text: z.string().describe("Natural language request for market analysis, including the market symbol")
+            text: z.string().optional().describe("Natural language request for market analysis, e.g. 'what do you think of SOL'"),
+            market: z.string().optional().describe("Market symbol or base token to analyze, e.g. SOL-USD-PERP or SOL"),
+            resolution: z.enum(['1', '3', '5', '15', '30', '60']).optional()
+                .describe("Candle length in minutes, defaults to PARADEX_ANALYSIS_RESOLUTION")
         }),
         handler: async (call, _ctx, _agent) => {
             try {
-                const text = call.data.text.toLowerCase();
-                const marketMatch = text.match(/(?:analyze|check|predict)\s+([a-zA-Z0-9]+)/i);
+                const markets = await getCachedMarkets(config);
+                const marketSymbol = call.data.market
+                    ? resolveMarket(call.data.market, markets)
+                    : findMarketInText(call.data.text ?? '', markets);
 
-                if (!marketMatch) {
+                if (!marketSymbol) {
                     return {
                         success: false,
                         message: JSON.stringify({
-                            text: "Please specify the market to analyze. For example: 'analyze BTC' or 'predict ETH'"
+                            text: "Please specify a listed market to analyze. For example: 'analyze BTC' or 'what do you think of SOL'"
                         })
                     };
                 }
 
-                const baseToken = marketMatch[1].toUpperCase();
-                const marketSymbol = `${baseToken}-USD-PERP`;
-
-                const analysis = await analyzeMarket(config, marketSymbol);
+                const [marketData] = await getCachedMarkets(config, marketSymbol);
+                const resolution = call.data.resolution ? Number(call.data.resolution) as CandleResolution : undefined;
+                const analysis = await analyzeMarket(config, marketSymbol, undefined, marketData, resolution);
+                const { metrics } = analysis;
 
                 return {
                     success: true,
                     message: JSON.stringify({
-                        text: `Analysis for ${marketSymbol}:\n\n` +
+                        text: `Analysis for ${marketSymbol} (${metrics.candles} x ${metrics.resolution}m candles):\n\n` +
                             `Recommendation: ${analysis.recommendation}\n` +
-                            `Confidence: ${(analysis.confidence * 100).toFixed(1)}%\n` +
-                            `Reasoning: ${analysis.reasoning}\n\n` +
+                            `Confidence: ${(analysis.confidence * 100).toFixed(1)}%\n\n` +
+                            `Signals:\n` +
+                            analysis.signals.map((s) =>
+                                `• ${s.name}: ${s.detail} (score ${s.score.toFixed(2)} x weight ${s.weight} = ${s.contribution.toFixed(3)})`
+                            ).join('\n') + '\n\n' +
                             `Metrics:\n` +
-                            `• Volatility: ${(analysis.metrics.volatility * 100).toFixed(2)}%\n` +
-                            `• Momentum: ${(analysis.metrics.momentum * 100).toFixed(2)}%\n` +
-                            `• Volume Trend: ${analysis.metrics.volume_trend.toFixed(3)}`
+                            `• ATR: ${metrics.atr.toFixed(4)}, ${(metrics.volatility * 100).toFixed(2)}% per day\n` +
+                            `• Realized volatility: ${(metrics.realizedVolatility * 100).toFixed(2)}% per day\n` +
+                            `• Momentum: ${(metrics.momentum * 100).toFixed(2)}% over the window\n` +
+                            `• Funding: ${(metrics.fundingRate * 100).toFixed(4)}% per 8h\n` +
+                            `• Risk band: ${analysis.positionLimits.riskBand.level}, suggested stop ${analysis.positionLimits.riskBand.stopLossPercent}%`,
+                        reasoning: analysis.reasoning
                     })
                 };
             } catch (error) {
@@ -536,17 +1561,727 @@ async function main() {
         }
     });
 
-    const agent = createDreams({
+    const estimateSlippageAction = action({
+        name: "paradex-estimate-slippage",
+        description: "Estimate the average fill price and slippage of a market order by walking the order book, " +
+            "e.g. 'how much would buying 5 ETH at market slip' or 'slippage for selling $20000 of SOL'",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: orderFields.market,
+            side: orderFields.side,
+            size: orderFields.size,
+            notional: orderFields.notional
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const { text, ...fields } = call.data;
+                const request = mergeOrderRequest(text ? parseOrderText(text)?.order : undefined, fields);
+                const built = buildOrderDetails(
+                    { ...request, type: 'MARKET', price: undefined, triggerPrice: undefined },
+                    await getCachedMarkets(config),
+                );
+                if ('error' in built) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: built.error })
+                    };
+                }
+
+                const { order, rules } = built;
+                const book = await loadOrderBook(config, order.market);
+                const estimate = estimateSlippage(book, order.side as 'BUY' | 'SELL', Number(order.size));
+                let capText = '';
+                if (config.slippage) {
+                    const decision = applySlippageCap(order, estimate, rules, config.slippage);
+                    capText = decision.action === 'send'
+                        ? `Within the ${config.slippage.maxBps} bps cap, a market order would be sent as is.`
+                        : decision.action === 'limit'
+                            ? `A market order would be sent as an IOC limit at ${decision.price} because ${decision.reason}.`
+                            : `A market order would be refused because ${decision.reason}.`;
+                }
+
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Slippage estimate for ${order.side} ${order.size} ${order.market}:\n` +
+                            formatSlippageEstimate(estimate) + '\n' + capText,
+                        estimate
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const portfolioReportAction = action({
+        name: "paradex-portfolio-report",
+        description: "Report realized and unrealized PnL per market, funding paid or received, fees and the return " +
+            "over the last day, week and month from the fills and funding payments, optionally exported to CSV or JSON",
+        schema: z.object({
+            text: z.string().optional().describe("Natural language request, e.g. 'how did I do this week'"),
+            account: accountField.describe("Only this account or subaccount, all accounts when empty"),
+            format: z.enum(['csv', 'json']).optional()
+                .describe("Also write the report to a CSV or JSON file under the data directory")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const selected = resolveClients(call.data.account, call.data.text);
+                const reports = await Promise.all(selected.map((client) => client.getPortfolioReport()));
+
+                const files: string[] = [];
+                if (call.data.format) {
+                    const directory = path.join(config.dataDir ?? "data", "reports");
+                    await mkdir(directory, { recursive: true });
+                    for (const report of reports) {
+                        const stamp = new Date(report.generatedAt).toISOString().replace(/[:.]/g, '-');
+                        const file = path.join(directory, `portfolio-${report.account}-${stamp}.${call.data.format}`);
+                        await writeFile(file, call.data.format === 'csv'
+                            ? portfolioCsv(report)
+                            : JSON.stringify(report, null, 2));
+                        files.push(file);
+                    }
+                }
+
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: reports.map(formatPortfolioReport).join('\n\n') +
+                            (files.length ? `\n\nExported to ${files.join(', ')}` : ''),
+                        files
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const marginStatusAction = action({
+        name: "paradex-margin-status",
+        description: "Check margin health: the margin ratio of each account and how far each position is from its liquidation price",
+        schema: z.object({
+            text: z.string().optional().describe("Natural language request, e.g. 'how close am I to liquidation'"),
+            account: accountField.describe("Only this account or subaccount, all accounts when empty")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                if (!marginMonitor) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({ text: "Margin monitoring is not configured" })
+                    };
+                }
+                const selected = resolveClients(call.data.account, call.data.text).map((client) => client.name);
+                const health = (await marginMonitor.check()).filter((h) => selected.includes(h.account));
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: health.length
+                            ? health.map(formatMarginHealth).join('\n\n')
+                            : "Margin could not be checked, see the logs",
+                        health
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    // Starts an execution algorithm once the parent order clears confirmation
+    const startAlgo = (
+        client: ParadexClient,
+        params: AlgoParams,
+        orders: OrderDetails[],
+        originalRequest: string,
+    ): Promise<ActionResult> => {
+        const execute = async (): Promise<ActionResult> => {
+            try {
+                const execution = await algos.start(client, params, originalRequest);
+                return {
+                    success: execution.status !== 'failed',
+                    message: JSON.stringify({
+                        text: `${params.kind} execution ${execution.id} ${execution.status === 'failed' ? 'failed' : 'started'}` +
+                            `${onAccount(client)}:\n${formatExecution(execution)}`,
+                        id: execution.id
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        };
+        const summary = `${params.kind} ${params.side} ${params.size} ${params.market}`;
+        return confirmOrders(client, orders.length > 1 ? 'batch' : 'order', summary, orders, execute);
+    };
+
+    // Market, side and total size of an algo order, from the fields or the request text
+    const buildParentOrder = async (
+        { text, market, side, size, notional }: { text?: string; market?: string; side?: 'BUY' | 'SELL'; size?: string; notional?: string },
+        price?: string,
+    ) => {
+        const request = mergeOrderRequest(text ? parseOrderText(text)?.order : undefined, { market, side, size, notional });
+        return buildOrderDetails(
+            { ...request, type: price ? 'LIMIT' : 'MARKET', price, triggerPrice: undefined },
+            await getCachedMarkets(config),
+        );
+    };
+
+    const twapOrderAction = action({
+        name: "paradex-twap-order",
+        description: "Work a large order as equal slices spread evenly over a duration (TWAP), " +
+            "e.g. 'buy 10 ETH over 30 minutes'. Slices are market orders, or IOC limits when a limit price is given",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: orderFields.market,
+            side: orderFields.side,
+            size: orderFields.size,
+            notional: orderFields.notional,
+            durationMinutes: z.number().positive().describe("Time to spread the order over"),
+            slices: z.number().int().min(2).max(500).optional().describe("Number of slices, defaults to one a minute"),
+            limitPrice: z.string().optional().describe("Worst price a slice may fill at"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, call.data.text);
+                const { text, durationMinutes, slices, limitPrice } = call.data;
+                const built = await buildParentOrder(call.data, limitPrice);
+                if ('error' in built) {
+                    return { success: false, message: JSON.stringify({ text: built.error }) };
+                }
+
+                const { order, rules } = built;
+                return await startAlgo(client, {
+                    kind: 'TWAP',
+                    market: order.market,
+                    side: order.side as 'BUY' | 'SELL',
+                    size: order.size,
+                    durationSeconds: durationMinutes * 60,
+                    slices: slices ?? Math.max(2, Math.round(durationMinutes)),
+                    limitPrice: limitPrice && roundPrice(rules, limitPrice, order.side as 'BUY' | 'SELL'),
+                }, [order], text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const icebergOrderAction = action({
+        name: "paradex-iceberg-order",
+        description: "Rest a large limit order showing only a clip of it at a time, the next clip goes up as the last one fills, " +
+            "e.g. 'sell 20 ETH at 3500 in clips of 1'",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: orderFields.market,
+            side: orderFields.side,
+            size: orderFields.size,
+            notional: orderFields.notional,
+            price: z.string().describe("Limit price of every clip"),
+            clipSize: z.string().describe("Size shown at a time, in the base currency"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, call.data.text);
+                const { text, price, clipSize } = call.data;
+                const built = await buildParentOrder(call.data, price);
+                if ('error' in built) {
+                    return { success: false, message: JSON.stringify({ text: built.error }) };
+                }
+
+                const { order, rules } = built;
+                const clip = roundSize(rules, clipSize);
+                if (!(Number(clip) > 0) || Number(clip) > Number(order.size)) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({
+                            text: `The clip size must be between one ${rules.symbol} size increment (${rules.sizeIncrement.toFixed()}) and the order size ${order.size}`
+                        })
+                    };
+                }
+
+                return await startAlgo(client, {
+                    kind: 'ICEBERG',
+                    market: order.market,
+                    side: order.side as 'BUY' | 'SELL',
+                    size: order.size,
+                    price: order.price!,
+                    clipSize: clip,
+                }, [order], text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const ladderOrderAction = action({
+        name: "paradex-ladder-order",
+        description: "Spread an order over several limit orders evenly spaced between two prices, " +
+            "e.g. 'buy 5 ETH in 10 orders from 3000 down to 2800'. Linear sizing grows the orders by equal steps " +
+            "towards the second price, geometric multiplies each one by the ratio",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text request, only used for fields not given below"),
+            market: orderFields.market,
+            side: orderFields.side,
+            size: orderFields.size,
+            notional: orderFields.notional,
+            fromPrice: z.string().describe("Price of the first order"),
+            toPrice: z.string().describe("Price of the last order"),
+            orders: z.number().int().min(2).max(50).describe("Number of limit orders"),
+            sizing: z.enum(['linear', 'geometric']).optional().describe("Defaults to linear"),
+            ratio: z.number().positive().optional().describe("Size ratio between neighbouring orders for geometric sizing, default 1.5"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, call.data.text);
+                const { text, fromPrice, toPrice, orders, sizing, ratio } = call.data;
+                const built = await buildParentOrder(call.data, fromPrice);
+                if ('error' in built) {
+                    return { success: false, message: JSON.stringify({ text: built.error }) };
+                }
+
+                const { order, rules } = built;
+                const params: AlgoParams = {
+                    kind: 'LADDER',
+                    market: order.market,
+                    side: order.side as 'BUY' | 'SELL',
+                    size: order.size,
+                    fromPrice,
+                    toPrice,
+                    orders,
+                    sizing: sizing ?? 'linear',
+                    ratio,
+                };
+                const rungs = planLadder(rules, params);
+                return await startAlgo(client, params, rungs.map((rung) => ({
+                    market: order.market,
+                    side: order.side,
+                    type: 'LIMIT',
+                    size: rung.size,
+                    price: rung.price,
+                })), text ?? JSON.stringify(call.data));
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const algoStatusAction = action({
+        name: "paradex-algo-status",
+        description: "Show the progress of TWAP, iceberg and ladder executions: filled size, average fill against the arrival price, child orders",
+        schema: z.object({
+            id: z.string().optional().describe("Execution id, e.g. twap-1, all executions when empty")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            const executions = call.data.id ? [algos.get(call.data.id)].filter((e) => e !== undefined) : algos.list();
+            return {
+                success: executions.length > 0 || !call.data.id,
+                message: JSON.stringify({
+                    text: executions.length
+                        ? `Executions:\n${executions.map(formatExecution).join('\n')}`
+                        : call.data.id ? `No execution with id ${call.data.id}` : "No executions yet",
+                    executions
+                })
+            };
+        }
+    });
+
+    const algoControlAction = action({
+        name: "paradex-algo-control",
+        description: "Pause, resume or cancel a TWAP, iceberg or ladder execution. Pausing stops new child orders, " +
+            "cancelling also cancels the ones still open",
+        schema: z.object({
+            id: z.string().describe("Execution id, e.g. twap-1"),
+            command: z.enum(['pause', 'resume', 'cancel'])
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const { id, command } = call.data;
+                const execution = command === 'pause'
+                    ? algos.pause(id)
+                    : command === 'resume' ? algos.resume(id) : await algos.cancel(id);
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Execution ${id} ${execution.status}:\n${formatExecution(execution)}`
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const startStrategyAction = action({
+        name: "paradex-start-strategy",
+        description: "Start an autonomous trading strategy on a schedule or on feed events. Built-in strategies: " +
+            Object.entries(builtinStrategies).map(([name, strategy]) => `${name} (${strategy.description})`).join('; ') +
+            ". A path to a .ts/.js module exporting a strategy also works. Its orders pass the risk checks but skip confirmation",
+        schema: z.object({
+            name: z.string().describe("Unique name for this strategy instance, e.g. 'eth-dca'"),
+            strategy: z.string().describe("Built-in strategy name or path to a strategy module"),
+            markets: z.array(z.string()).min(1).describe("Markets the strategy trades, e.g. ['ETH-USD-PERP'] or ['ETH']"),
+            intervalSeconds: z.number().int().min(10).optional().describe("Run the strategy every N seconds"),
+            events: z.array(z.enum(['fill', 'price_move'])).optional()
+                .describe("Also run on fills in the strategy's markets or on price moves (needs the market feed)"),
+            params: z.record(z.unknown()).optional().describe("Strategy parameters, e.g. { notional: 100 } for dca"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const client = resolveClient(call.data.account, undefined);
+                const available = await getCachedMarkets(config);
+                const markets = call.data.markets.map((market) => {
+                    const symbol = resolveMarket(market, available);
+                    if (!symbol) {
+                        throw new Error(`Market ${market} is not listed on Paradex`);
+                    }
+                    return symbol;
+                });
+
+                const record = await strategies.start({
+                    name: call.data.name,
+                    strategy: call.data.strategy,
+                    account: client.name,
+                    markets,
+                    intervalSeconds: call.data.intervalSeconds,
+                    events: call.data.events,
+                    params: call.data.params,
+                });
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Started strategy ${record.name}${onAccount(client)}:\n${formatStrategyRecord(record)}`
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const stopStrategyAction = action({
+        name: "paradex-stop-strategy",
+        description: "Stop a running strategy, its open orders are left in place",
+        schema: z.object({
+            name: z.string().describe("Name of the strategy instance to stop")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const record = await strategies.stop(call.data.name);
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Stopped strategy ${record.name}:\n${formatStrategyRecord(record)}`
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const listStrategiesAction = action({
+        name: "paradex-list-strategies",
+        description: "List the strategy instances with their status, triggers and last run",
+        schema: z.object({}),
+        handler: async (_call, _ctx, _agent) => {
+            const records = strategies.list();
+            return {
+                success: true,
+                message: JSON.stringify({
+                    text: records.length
+                        ? `Strategies:\n${records.map(formatStrategyRecord).join('\n')}`
+                        : `No strategies yet. Built-in strategies: ${Object.keys(builtinStrategies).join(', ')}`
+                })
+            };
+        }
+    });
+
+    const createAlertAction = action({
+        name: "paradex-create-alert",
+        description: "Create a price or market condition alert, e.g. 'tell me when BTC crosses 70k', " +
+            "'alert if ETH funding goes above 0.05%' or 'every time SOL drops below 120'. " +
+            "The agent is told when it triggers, once or every time after a cooldown",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text alert request, only used for fields not given below"),
+            market: z.string().optional().describe("Market symbol or base token, e.g. BTC-USD-PERP or BTC"),
+            metric: z.enum(['price', 'mark', 'funding', 'open_interest']).optional()
+                .describe("Value to watch: last price (default), mark price, funding rate or open interest"),
+            condition: z.enum(['above', 'below', 'crosses']).optional().describe("When to trigger against the threshold"),
+            threshold: z.string().optional()
+                .describe("Threshold such as '70000', '70k' or, for funding, '0.05%'"),
+            mode: z.enum(['once', 'recurring']).optional().describe("Trigger once (default) or every time, with a cooldown"),
+            cooldownSeconds: z.number().int().min(0).optional()
+                .describe("Quiet period after a recurring alert triggers, default 300")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const parsed = parseAlertText(call.data.text ?? '');
+                const markets = await getCachedMarkets(config);
+                const market = call.data.market
+                    ? resolveMarket(call.data.market, markets)
+                    : findMarketInText(call.data.text ?? '', markets);
+                const condition = call.data.condition ?? parsed.condition;
+                const threshold = parseThreshold(call.data.threshold ?? parsed.threshold ?? '');
+
+                if (!market || !condition || threshold === undefined) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({
+                            text: "Please give a listed market, a condition and a threshold. " +
+                                "For example: 'tell me when BTC crosses 70k' or 'alert if ETH funding goes above 0.05%'"
+                        })
+                    };
+                }
+
+                const alert = await alerts.create({
+                    market,
+                    metric: call.data.metric ?? parsed.metric ?? 'price',
+                    condition,
+                    threshold,
+                    mode: call.data.mode ?? (parsed.recurring ? 'recurring' : 'once'),
+                    cooldownSeconds: call.data.cooldownSeconds,
+                    note: call.data.text,
+                });
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Created alert ${alert.id}:\n${formatAlert(alert)}`,
+                        alert
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const listAlertsAction = action({
+        name: "paradex-list-alerts",
+        description: "List the price and market condition alerts with their status and last trigger",
+        schema: z.object({}),
+        handler: async (_call, _ctx, _agent) => {
+            const records = alerts.list();
+            return {
+                success: true,
+                message: JSON.stringify({
+                    text: records.length
+                        ? `Alerts:\n${records.map(formatAlert).join('\n')}`
+                        : "No alerts yet. Create one with e.g. 'tell me when BTC crosses 70k'"
+                })
+            };
+        }
+    });
+
+    const deleteAlertAction = action({
+        name: "paradex-delete-alert",
+        description: "Delete an alert by its id, e.g. alert-3",
+        schema: z.object({
+            id: z.string().describe("Alert id from paradex-list-alerts, e.g. alert-3")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const alert = await alerts.remove(call.data.id.trim().toLowerCase());
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Deleted alert ${alert.id}:\n${formatAlert(alert)}`
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const createConditionalOrderAction = action({
+        name: "paradex-create-conditional-order",
+        description: "Hold an order or a position close and submit it once every condition holds: a market's price, mark, " +
+            "funding or open interest against a level, and/or a time. E.g. 'buy 1 SOL if BTC breaks 70k and funding is negative' " +
+            "or 'close my ETH long at 16:00 UTC'. It goes through the usual order checks when it is submitted",
+        schema: z.object({
+            text: z.string().optional().describe("Free-text conditional order, only used for fields not given below"),
+            ...orderFields,
+            closePercent: z.number().positive().max(100).optional()
+                .describe("Close this share of the position in `market` instead of placing an order"),
+            conditions: z.array(z.object({
+                market: z.string().optional().describe("Market to watch, defaults to the order's market"),
+                metric: z.enum(['price', 'mark', 'funding', 'open_interest']).default('price'),
+                condition: z.enum(['above', 'below', 'crosses']),
+                threshold: z.string().describe("Level such as '70000', '70k' or, for funding, '-0.01%'")
+            })).optional().describe("Market conditions, all of them have to hold"),
+            at: z.string().optional().describe("Also wait until this time, ISO 8601 such as 2026-10-20T16:00:00Z"),
+            account: accountField
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const { text, closePercent, conditions: conditionFields, at: atField, account: accountName, ...fields } = call.data;
+                const client = resolveClient(accountName, text);
+                const markets = await getCachedMarkets(config);
+                const parsed = text ? parseConditionalText(text, markets) : undefined;
+
+                let action: ConditionalAction;
+                // Set for orders, whose notional needs confirming
+                let preview: OrderDetails | undefined;
+                if (closePercent !== undefined || parsed?.close) {
+                    const market = await resolvePositionMarket(fields.market, parsed?.orderText);
+                    if (!market) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({ text: "Please specify which position to close. For example: 'close my ETH long at 16:00 UTC'" })
+                        };
+                    }
+                    action = { kind: 'close', market, percent: closePercent ?? parsePercent(parsed?.orderText ?? '') ?? 100 };
+                } else {
+                    const request = mergeOrderRequest(parsed?.orderText ? parseOrderText(parsed.orderText)?.order : undefined, fields);
+                    const built = buildOrderDetails(request, markets);
+                    if ('error' in built) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({ text: built.error })
+                        };
+                    }
+                    // The size and prices are rounded again when it is submitted
+                    action = { kind: 'order', order: { ...request, market: built.market.symbol } };
+                    preview = built.order;
+                }
+                const orderMarket = action.kind === 'close' ? action.market : action.order.market!;
+
+                const conditions: ConditionalOrderSpec['conditions'] = [];
+                for (const condition of conditionFields ?? parsed?.conditions ?? []) {
+                    const market = condition.market ? resolveMarket(condition.market, markets) : orderMarket;
+                    const threshold = parseThreshold(condition.threshold);
+                    if (!market || threshold === undefined) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({
+                                text: `Could not read the condition ${condition.market ?? orderMarket} ${condition.metric} ` +
+                                    `${condition.condition} ${condition.threshold}`
+                            })
+                        };
+                    }
+                    conditions.push({ type: 'market', market, metric: condition.metric, condition: condition.condition, threshold });
+                }
+                const at = atField ? Date.parse(atField) : parsed?.at;
+                if (at !== undefined) {
+                    if (Number.isNaN(at)) {
+                        return {
+                            success: false,
+                            message: JSON.stringify({ text: `Could not read the time ${atField}, use ISO 8601 such as 2026-10-20T16:00:00Z` })
+                        };
+                    }
+                    conditions.push({ type: 'time', at });
+                }
+                if (!conditions.length) {
+                    return {
+                        success: false,
+                        message: JSON.stringify({
+                            text: "Please give a condition or a time. For example:\n" +
+                                "'buy 1 SOL if BTC breaks 70k and funding is negative'\n" +
+                                "'sell 0.1 ETH at limit 3000 when ETH mark drops below 2900'\n" +
+                                "'close my ETH long at 16:00 UTC'"
+                        })
+                    };
+                }
+
+                const execute = async (): Promise<ActionResult> => {
+                    try {
+                        const record = await conditionalOrders.create({
+                            account: client.name,
+                            conditions,
+                            action,
+                            note: text,
+                        });
+                        return {
+                            success: true,
+                            message: JSON.stringify({
+                                text: `Holding conditional order ${record.id}${onAccount(client)}:\n${formatConditionalOrder(record)}`,
+                                id: record.id
+                            })
+                        };
+                    } catch (error) {
+                        return actionError(error);
+                    }
+                };
+                // Closes only reduce, orders are confirmed like a single order when they are set up
+                if (!preview) {
+                    return await execute();
+                }
+                const summary = `conditional ${preview.type} ${preview.side} ${preview.size} ${preview.market}`;
+                return await confirmOrders(client, 'order', summary, [preview], execute);
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const listConditionalOrdersAction = action({
+        name: "paradex-list-conditional-orders",
+        description: "List the conditional orders held by the agent with their conditions and status",
+        schema: z.object({}),
+        handler: async (_call, _ctx, _agent) => {
+            const records = conditionalOrders.list();
+            return {
+                success: true,
+                message: JSON.stringify({
+                    text: records.length
+                        ? `Conditional orders:\n${records.map(formatConditionalOrder).join('\n')}`
+                        : "No conditional orders yet. Create one with e.g. 'buy 1 SOL if BTC breaks 70k'"
+                })
+            };
+        }
+    });
+
+    const cancelConditionalOrderAction = action({
+        name: "paradex-cancel-conditional-order",
+        description: "Cancel a pending conditional order by its id, e.g. cond-2. Orders it already submitted stay on the book",
+        schema: z.object({
+            id: z.string().describe("Conditional order id from paradex-list-conditional-orders, e.g. cond-2")
+        }),
+        handler: async (call, _ctx, _agent) => {
+            try {
+                const record = await conditionalOrders.cancel(call.data.id.trim().toLowerCase());
+                return {
+                    success: true,
+                    message: JSON.stringify({
+                        text: `Cancelled conditional order ${record.id}:\n${formatConditionalOrder(record)}`
+                    })
+                };
+            } catch (error) {
+                return actionError(error);
+            }
+        }
+    });
+
+    const agent = await createDreams({
         model: groq("deepseek-r1-distill-llama-70b"),
         memory: {
             store: createMemoryStore(),
             vector: createVectorStore(),
         },
         extensions: [cli],
+        inputs: {
+            "paradex:auth": createTokenInput(tokens),
+            ...(marketFeed && { "paradex:feed": createFeedInput(marketFeed, config.feed!.priceMovePercent) }),
+            "paradex:strategies": createStrategyInput(strategies),
+            ...(marginMonitor && { "paradex:margin": createMarginInput(marginMonitor) }),
+            "paradex:executions": createAlgoInput(algos),
+            "paradex:brackets": createBracketInput(brackets),
+            "paradex:alerts": createAlertInput(alerts),
+            "paradex:conditional-orders": createConditionalInput(conditionalOrders),
+        },
         actions: [
             ...[getAccountInfoAction, openOrderAction, cancelOrderAction,
-                listOpenOrdersAction, listAvailableMarketsAction,
-                getPositionsAction, getOrderHistoryAction, analyzeMarketAction].map(originalAction => ({
+                cancelAllOrdersAction, batchOrdersAction, confirmAction, closePositionAction, reducePositionAction,
+                flipPositionAction, closeAllPositionsAction, listOpenOrdersAction, listAvailableMarketsAction,
+                getPositionsAction, getOrderHistoryAction, portfolioReportAction, marginStatusAction, analyzeMarketAction,
+                estimateSlippageAction, twapOrderAction, icebergOrderAction, ladderOrderAction, algoStatusAction,
+                algoControlAction, startStrategyAction, stopStrategyAction, listStrategiesAction, createAlertAction,
+                listAlertsAction, deleteAlertAction, createConditionalOrderAction, listConditionalOrdersAction,
+                cancelConditionalOrderAction].map(originalAction => ({
                     ...originalAction,
                     handler: async (call: any, ctx: any, agent: any) => {
                         if (!rateLimiter.canMakeRequest()) {
@@ -564,6 +2299,16 @@ async function main() {
         ],
     }).start();
 
+    // After the agent is listening, so orders from the first ticks and the first alerts are reported
+    await strategies.restore();
+    await alerts.load();
+    alerts.start();
+    await conditionalOrders.load();
+    conditionalOrders.start();
+    if (marginMonitor && config.margin?.enabled) {
+        marginMonitor.start();
+    }
+
     return agent;
 }
 
@@ -0,0 +1,125 @@
+import type { Candle, FundingData } from "./schemas";
+
+// Technical indicators over candles, oldest first. Series functions return one
+// value per input, NaN until the window has filled.
+
+export function sma(values: number[], period: number): number[] {
+    let sum = 0;
+    return values.map((value, i) => {
+        sum += value;
+        if (i >= period) sum -= values[i - period];
+        return i >= period - 1 ? sum / period : NaN;
+    });
+}
+
+// Seeded with the SMA of the first `period` values
+export function ema(values: number[], period: number): number[] {
+    const k = 2 / (period + 1);
+    const result: number[] = [];
+    let previous = NaN;
+    values.forEach((value, i) => {
+        if (i < period - 1) {
+            result.push(NaN);
+            return;
+        }
+        previous = i === period - 1
+            ? values.slice(0, period).reduce((total, v) => total + v, 0) / period
+            : value * k + previous * (1 - k);
+        result.push(previous);
+    });
+    return result;
+}
+
+// Wilder's RSI, 0-100
+export function rsi(closes: number[], period = 14): number[] {
+    const result: number[] = closes.map(() => NaN);
+    if (closes.length <= period) return result;
+
+    let gain = 0;
+    let loss = 0;
+    for (let i = 1; i <= period; i++) {
+        const change = closes[i] - closes[i - 1];
+        gain += Math.max(change, 0);
+        loss += Math.max(-change, 0);
+    }
+    gain /= period;
+    loss /= period;
+
+    for (let i = period; i < closes.length; i++) {
+        if (i > period) {
+            const change = closes[i] - closes[i - 1];
+            gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+            loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+        }
+        result[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+    }
+    return result;
+}
+
+// Wilder's average true range, in price units
+export function atr(candles: Candle[], period = 14): number[] {
+    const trueRanges = candles.map((candle, i) => {
+        if (i === 0) return candle.high - candle.low;
+        const previousClose = candles[i - 1].close;
+        return Math.max(
+            candle.high - candle.low,
+            Math.abs(candle.high - previousClose),
+            Math.abs(candle.low - previousClose),
+        );
+    });
+
+    const result: number[] = candles.map(() => NaN);
+    if (candles.length < period) return result;
+    let average = trueRanges.slice(0, period).reduce((total, tr) => total + tr, 0) / period;
+    result[period - 1] = average;
+    for (let i = period; i < candles.length; i++) {
+        average = (average * (period - 1) + trueRanges[i]) / period;
+        result[i] = average;
+    }
+    return result;
+}
+
+// Standard deviation of the log returns between closes, per candle
+export function realizedVolatility(candles: Candle[]): number {
+    const returns = candles.slice(1)
+        .map((candle, i) => Math.log(candle.close / candles[i].close))
+        .filter(Number.isFinite);
+    if (returns.length < 2) return 0;
+    const mean = returns.reduce((total, r) => total + r, 0) / returns.length;
+    const variance = returns.reduce((total, r) => total + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance);
+}
+
+// Volume-weighted average of the typical price (high + low + close) / 3
+export function vwap(candles: Candle[]): number {
+    let volume = 0;
+    let weighted = 0;
+    for (const candle of candles) {
+        volume += candle.volume;
+        weighted += (candle.high + candle.low + candle.close) / 3 * candle.volume;
+    }
+    return volume > 0 ? weighted / volume : NaN;
+}
+
+// 1 when the fast series crossed above the slow one within the last `lookback`
+// values, -1 when it crossed below, 0 otherwise
+export function recentCrossover(fast: number[], slow: number[], lookback = 3): -1 | 0 | 1 {
+    for (let i = fast.length - 1; i > 0 && i >= fast.length - lookback; i--) {
+        const before = fast[i - 1] - slow[i - 1];
+        const after = fast[i] - slow[i];
+        if (Number.isNaN(before) || Number.isNaN(after)) break;
+        if (before <= 0 && after > 0) return 1;
+        if (before >= 0 && after < 0) return -1;
+    }
+    return 0;
+}
+
+// Mean rate of one funding period over the history
+export function averageFundingRate(history: FundingData[]): number {
+    if (history.length === 0) return 0;
+    return history.reduce((total, entry) => total + Number(entry.funding_rate), 0) / history.length;
+}
+
+export function last(values: number[]): number {
+    return values[values.length - 1];
+}
@@ -0,0 +1,320 @@
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { MarginSettings } from "./types";
+import type { AccountSummary, Market, Position } from "./schemas";
+import type { ParadexClient } from "./paradex";
+import type { ParadexFeed } from "./feed";
+import { signedPositionSize } from "./risk";
+import { roundSize } from "./markets";
+import { storeOrder } from "./memory";
+
+// Margin health of every account: the margin ratio of the account and the
+// distance of each position to its liquidation price, checked on a timer and
+// after fills. Alerts fire when a level is crossed, not on every check.
+
+export type MarginLevel = 'ok' | 'warning' | 'critical';
+
+export interface PositionMargin {
+    market: string;
+    // Signed, shorts negative
+    size: number;
+    notional: number;
+    markPrice: number;
+    liquidationPrice?: number;
+    // No liquidation price from Paradex, worked out from the margin cushion
+    liquidationEstimated: boolean;
+    // From the mark to the liquidation price, in percent
+    distancePercent?: number;
+    level: MarginLevel;
+}
+
+export interface MarginHealth {
+    account: string;
+    checkedAt: number;
+    accountValue: number;
+    maintenanceMargin: number;
+    // maintenanceMargin / accountValue, liquidation at 1
+    marginRatio: number;
+    level: MarginLevel;
+    positions: PositionMargin[];
+}
+
+export type MarginEvent =
+    | { type: 'level'; account: string; market?: string; level: MarginLevel; previous: MarginLevel; health: MarginHealth }
+    | { type: 'auto_reduce'; account: string; market: string; side: 'BUY' | 'SELL'; size: string; orderId?: string; error?: string }
+    | { type: 'error'; account: string; error: string };
+
+const AUTO_REDUCE_COOLDOWN_MS = 5 * 60 * 1000;
+const LEVELS: MarginLevel[] = ['ok', 'warning', 'critical'];
+
+function levelFor(value: number, warning: number, critical: number, rising: boolean): MarginLevel {
+    if (!Number.isFinite(value)) return 'ok';
+    if (rising ? value >= critical : value <= critical) return 'critical';
+    if (rising ? value >= warning : value <= warning) return 'warning';
+    return 'ok';
+}
+
+export function assessMargin(
+    account: string,
+    summary: AccountSummary,
+    positions: Position[],
+    markets: Market[],
+    settings: MarginSettings,
+    now = Date.now(),
+): MarginHealth {
+    const accountValue = Number(summary.account_value);
+    const maintenanceMargin = Number(summary.maintenance_margin_requirement);
+    const marginRatio = accountValue > 0 ? maintenanceMargin / accountValue : maintenanceMargin > 0 ? Infinity : 0;
+    const cushion = accountValue - maintenanceMargin;
+
+    const assessed = positions
+        .filter((position) => Number(position.size) !== 0)
+        .map((position): PositionMargin => {
+            const size = signedPositionSize(position);
+            const market = markets.find((m) => m.symbol === position.market);
+            const markPrice = Number(market?.mark_price || market?.last_price) || Number(position.average_entry_price);
+            const reported = Number(position.liquidation_price);
+            // Cross margin: the move that eats the whole cushion with this position alone
+            const estimated = markPrice - cushion / size;
+            const liquidationPrice = reported > 0 ? reported : estimated > 0 ? estimated : undefined;
+            const distancePercent = liquidationPrice !== undefined
+                ? Math.abs(markPrice - liquidationPrice) / markPrice * 100
+                : undefined;
+            return {
+                market: position.market,
+                size,
+                notional: Math.abs(size) * markPrice,
+                markPrice,
+                liquidationPrice,
+                liquidationEstimated: !(reported > 0),
+                distancePercent,
+                level: distancePercent === undefined
+                    ? 'ok'
+                    : levelFor(distancePercent, settings.liquidationWarningPercent, settings.liquidationCriticalPercent, false),
+            };
+        });
+
+    return {
+        account,
+        checkedAt: now,
+        accountValue,
+        maintenanceMargin,
+        marginRatio,
+        level: levelFor(marginRatio, settings.warningRatio, settings.criticalRatio, true),
+        positions: assessed,
+    };
+}
+
+export function formatMarginHealth(health: MarginHealth): string {
+    const lines = [
+        `${health.account}: margin ratio ${(health.marginRatio * 100).toFixed(1)}% [${health.level}] ` +
+            `(maintenance ${health.maintenanceMargin.toFixed(2)} of ${health.accountValue.toFixed(2)} USD)`,
+    ];
+    for (const position of health.positions) {
+        lines.push(`• ${position.market} ${position.size} @ mark ${position.markPrice}: ` + (position.liquidationPrice !== undefined
+            ? `liquidation ${position.liquidationEstimated ? '~' : ''}${position.liquidationPrice.toFixed(2)}, ` +
+                `${position.distancePercent!.toFixed(1)}% away [${position.level}]`
+            : 'no liquidation price'));
+    }
+    return lines.join('\n');
+}
+
+export interface MarginMonitorOptions {
+    loadMarkets: () => Promise<Market[]>;
+    // Fills trigger a check right away
+    feed?: ParadexFeed;
+}
+
+export class MarginMonitor {
+    private readonly clients: ParadexClient[];
+    private readonly settings: MarginSettings;
+    private readonly options: MarginMonitorOptions;
+    private listeners = new Set<(event: MarginEvent) => void>();
+    private levels = new Map<string, MarginLevel>();
+    private latest = new Map<string, MarginHealth>();
+    private lastReduceAt = new Map<string, number>();
+    private timer?: ReturnType<typeof setInterval>;
+    private unsubscribe?: () => void;
+    private checking?: Promise<MarginHealth[]>;
+
+    constructor(clients: ParadexClient[], settings: MarginSettings, options: MarginMonitorOptions) {
+        this.clients = clients;
+        this.settings = settings;
+        this.options = options;
+    }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => void this.check(), this.settings.pollSeconds * 1000);
+        this.unsubscribe = this.options.feed?.subscribe((event) => {
+            if (event.type === 'fill') void this.check();
+        });
+        void this.check();
+    }
+
+    stop() {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.unsubscribe?.();
+    }
+
+    subscribe(listener: (event: MarginEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Last assessment of each account, empty until the first check
+    status(): MarginHealth[] {
+        return [...this.latest.values()];
+    }
+
+    // Assesses every account, concurrent callers share the check in flight
+    check(): Promise<MarginHealth[]> {
+        this.checking ??= this.checkAll().finally(() => {
+            this.checking = undefined;
+        });
+        return this.checking;
+    }
+
+    private async checkAll(): Promise<MarginHealth[]> {
+        const markets = await this.options.loadMarkets().catch(() => [] as Market[]);
+        const results = await Promise.all(this.clients.map(async (client) => {
+            try {
+                const [summary, positions] = await Promise.all([client.getAccountInfo(), client.getPositions()]);
+                const health = assessMargin(client.name, summary, positions, markets, this.settings);
+                this.latest.set(client.name, health);
+                this.compare(health);
+                if (health.level === 'critical' && this.settings.autoReduce) {
+                    await this.autoReduce(client, health);
+                }
+                return health;
+            } catch (error) {
+                console.error(`Margin check failed for ${client.name}:`, error);
+                this.emit({ type: 'error', account: client.name, error: error instanceof Error ? error.message : String(error) });
+                return undefined;
+            }
+        }));
+        return results.filter((health): health is MarginHealth => health !== undefined);
+    }
+
+    // Emits the account and positions whose level changed since the last check
+    private compare(health: MarginHealth) {
+        const changes: Array<{ key: string; market?: string; level: MarginLevel }> = [
+            { key: health.account, level: health.level },
+            ...health.positions.map((p) => ({ key: `${health.account}:${p.market}`, market: p.market, level: p.level })),
+        ];
+        // Closed positions are back to ok without an alert
+        for (const key of [...this.levels.keys()]) {
+            if (key.startsWith(`${health.account}:`) && !changes.some((change) => change.key === key)) {
+                this.levels.delete(key);
+            }
+        }
+        for (const { key, market, level } of changes) {
+            const previous = this.levels.get(key) ?? 'ok';
+            this.levels.set(key, level);
+            if (level !== previous) {
+                this.emit({ type: 'level', account: health.account, market, level, previous, health });
+            }
+        }
+    }
+
+    // Cuts the largest position with a reduce-only market order, at most once per cooldown
+    private async autoReduce(client: ParadexClient, health: MarginHealth) {
+        const last = this.lastReduceAt.get(client.name) ?? 0;
+        if (Date.now() - last < AUTO_REDUCE_COOLDOWN_MS) return;
+        const [largest] = [...health.positions].sort((a, b) => b.notional - a.notional);
+        if (!largest) return;
+        this.lastReduceAt.set(client.name, Date.now());
+
+        const side: 'BUY' | 'SELL' = largest.size > 0 ? 'SELL' : 'BUY';
+        let size = String(Math.abs(largest.size));
+        try {
+            const rules = await client.getMarketRules(largest.market);
+            const reduced = roundSize(rules, Math.abs(largest.size) * this.settings.autoReducePercent / 100);
+            // Below one increment the whole position goes
+            if (Number(reduced) > 0) size = reduced;
+
+            const order = { market: largest.market, side, type: 'MARKET', size, reduceOnly: true };
+            const result = await client.openOrder(order);
+            await storeOrder(result.orderId, {
+                ...order,
+                timestamp: Date.now(),
+                status: result.status,
+                response: result.data,
+                executionType: 'AUTO_REDUCE',
+                originalRequest: `margin ratio ${(health.marginRatio * 100).toFixed(1)}% past the ` +
+                    `${(this.settings.criticalRatio * 100).toFixed(0)}% critical level`,
+                account: client.account.name,
+            }, result.fills);
+            this.emit({ type: 'auto_reduce', account: client.name, market: largest.market, side, size, orderId: result.orderId });
+        } catch (error) {
+            console.error(`Auto-reduce of ${largest.market} failed for ${client.name}:`, error);
+            this.emit({
+                type: 'auto_reduce',
+                account: client.name,
+                market: largest.market,
+                side,
+                size,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private emit(event: MarginEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Margin listener failed:', error);
+            }
+        }
+    }
+}
+
+function describeEvent(event: MarginEvent): string | undefined {
+    if (event.type === 'error') return undefined;
+    if (event.type === 'auto_reduce') {
+        return event.error
+            ? `Auto-reduce of ${event.market} on ${event.account} failed: ${event.error}`
+            : `Margin critical on ${event.account}: reduced ${event.market} with a reduce-only ${event.side} of ${event.size} (order ${event.orderId})`;
+    }
+
+    const { health, level, previous } = event;
+    const worse = LEVELS.indexOf(level) > LEVELS.indexOf(previous);
+    const heading = level === 'ok' ? 'Margin recovered' : `Margin ${level}`;
+    if (!event.market) {
+        return `${heading} on ${event.account}: margin ratio ${(health.marginRatio * 100).toFixed(1)}%` +
+            ` (${worse ? 'up' : 'down'} from ${previous})\n${formatMarginHealth(health)}`;
+    }
+    const position = health.positions.find((p) => p.market === event.market)!;
+    return `${heading} on ${event.account}: ${event.market} is ${position.distancePercent?.toFixed(1)}% from its ` +
+        `${position.liquidationEstimated ? 'estimated ' : ''}liquidation price ${position.liquidationPrice?.toFixed(2)}` +
+        ` (mark ${position.markPrice})`;
+}
+
+// Pushes margin level changes and auto-reduce orders into the agent
+export function createMarginInput(monitor: MarginMonitor) {
+    return input({
+        schema: z.object({
+            event: z.string(),
+            account: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return monitor.subscribe((event) => {
+                const text = describeEvent(event);
+                if (text) {
+                    send(cli.contexts!.cli, { user: "admin" }, { event: event.type, account: event.account, text });
+                }
+            });
+        },
+    });
+}
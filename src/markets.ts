@@ -0,0 +1,160 @@
+import BigNumber from "bignumber.js";
+import type { OrderDetails } from "./types";
+import type { Market } from "./schemas";
+
+// Trading rules of each market, loaded from /markets. Sizes and prices are
+// rounded onto the market's increments in decimal arithmetic and checked here
+// before an order is signed.
+
+export interface MarketRules {
+    symbol: string;
+    assetKind: string;
+    tickSize: BigNumber;
+    sizeIncrement: BigNumber;
+    minNotional: BigNumber;
+    maxOrderSize: BigNumber;
+}
+
+export type Rounding = 'up' | 'down' | 'nearest';
+
+export interface RuleViolation {
+    code: string;
+    message: string;
+}
+
+const ROUNDING_MODES: Record<Rounding, BigNumber.RoundingMode> = {
+    up: BigNumber.ROUND_CEIL,
+    down: BigNumber.ROUND_FLOOR,
+    nearest: BigNumber.ROUND_HALF_UP,
+};
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+export function marketRules(market: Market): MarketRules {
+    return {
+        symbol: market.symbol,
+        assetKind: market.asset_kind,
+        tickSize: new BigNumber(market.price_tick_size),
+        sizeIncrement: new BigNumber(market.order_size_increment),
+        minNotional: new BigNumber(market.min_notional),
+        maxOrderSize: new BigNumber(market.max_order_size),
+    };
+}
+
+// Rounds onto a multiple of `step`, keeping the step's number of decimals
+export function roundToStep(value: BigNumber.Value, step: BigNumber.Value, rounding: Rounding): string {
+    const stepSize = new BigNumber(step);
+    const steps = new BigNumber(value).dividedBy(stepSize).integerValue(ROUNDING_MODES[rounding]);
+    return steps.multipliedBy(stepSize).toFixed(stepSize.decimalPlaces() ?? 0);
+}
+
+// Sizes round down by default, so an order never grows past what was asked for
+export function roundSize(rules: MarketRules, size: BigNumber.Value, rounding: Rounding = 'down'): string {
+    return roundToStep(size, rules.sizeIncrement, rounding);
+}
+
+// A limit price never rounds past the requested limit: buys round down, sells
+// round up. Pass 'nearest' for trigger prices, which have no better side.
+export function roundPrice(rules: MarketRules, price: BigNumber.Value, side: 'BUY' | 'SELL' | 'nearest'): string {
+    const rounding: Rounding = side === 'nearest' ? 'nearest' : side === 'BUY' ? 'down' : 'up';
+    return roundToStep(price, rules.tickSize, rounding);
+}
+
+function isMultipleOf(value: BigNumber, step: BigNumber): boolean {
+    return step.isZero() || value.modulo(step).isZero();
+}
+
+// Checks an order against the market rules. `referencePrice` values market orders
+// for the minimum notional, limit and trigger orders use their own price.
+export function checkOrderRules(
+    rules: MarketRules,
+    order: OrderDetails,
+    referencePrice?: BigNumber.Value,
+): RuleViolation | undefined {
+    const size = new BigNumber(order.size);
+    if (!size.isFinite() || size.lte(0)) {
+        return { code: 'INVALID_ORDER_SIZE', message: `Order size must be a positive number, got ${order.size}` };
+    }
+    if (!isMultipleOf(size, rules.sizeIncrement)) {
+        return {
+            code: 'INVALID_ORDER_SIZE',
+            message: `Order size ${order.size} is not a multiple of the ${rules.symbol} size increment ${rules.sizeIncrement.toFixed()}`,
+        };
+    }
+    if (rules.maxOrderSize.gt(0) && size.gt(rules.maxOrderSize)) {
+        return {
+            code: 'ORDER_SIZE_ABOVE_MAX',
+            message: `Order size ${order.size} exceeds the ${rules.symbol} maximum of ${rules.maxOrderSize.toFixed()}`,
+        };
+    }
+
+    for (const [label, value] of [['Price', order.price], ['Trigger price', order.triggerPrice]] as const) {
+        if (value === undefined) continue;
+        const price = new BigNumber(value);
+        if (!price.isFinite() || price.lte(0)) {
+            return { code: 'INVALID_PRICE', message: `${label} must be a positive number, got ${value}` };
+        }
+        if (!isMultipleOf(price, rules.tickSize)) {
+            return {
+                code: 'INVALID_PRICE',
+                message: `${label} ${value} is not a multiple of the ${rules.symbol} tick size ${rules.tickSize.toFixed()}`,
+            };
+        }
+    }
+
+    // Reduce-only orders may close a position smaller than the minimum
+    const price = new BigNumber(order.price ?? order.triggerPrice ?? referencePrice ?? NaN);
+    if (!order.reduceOnly && price.isFinite() && size.multipliedBy(price).lt(rules.minNotional)) {
+        return {
+            code: 'ORDER_NOTIONAL_BELOW_MIN',
+            message: `Order value ${size.multipliedBy(price).toFixed(2)} USD is below the ${rules.symbol} minimum of ${rules.minNotional.toFixed()} USD`,
+        };
+    }
+    return undefined;
+}
+
+// Market rules by symbol, reloaded from /markets once they are older than the TTL
+export class MarketRegistry {
+    private readonly load: () => Promise<Market[]>;
+    private readonly ttlMs: number;
+    private rules = new Map<string, MarketRules>();
+    private loadedAt = 0;
+    private loading?: Promise<void>;
+
+    constructor(load: () => Promise<Market[]>, ttlMs = DEFAULT_TTL_MS) {
+        this.load = load;
+        this.ttlMs = ttlMs;
+    }
+
+    async get(symbol: string): Promise<MarketRules | undefined> {
+        await this.refreshIfStale();
+        return this.rules.get(symbol.toUpperCase());
+    }
+
+    async require(symbol: string): Promise<MarketRules> {
+        const rules = await this.get(symbol);
+        if (!rules) {
+            throw new Error(`Market ${symbol} is not listed on Paradex`);
+        }
+        return rules;
+    }
+
+    async symbols(): Promise<string[]> {
+        await this.refreshIfStale();
+        return [...this.rules.keys()];
+    }
+
+    private async refreshIfStale() {
+        if (Date.now() - this.loadedAt < this.ttlMs) return;
+        // Concurrent callers share one load
+        this.loading ??= this.load()
+            .then((markets) => {
+                this.rules = new Map(markets.map((market) => [market.symbol, marketRules(market)]));
+                this.loadedAt = Date.now();
+            })
+            .finally(() => {
+                this.loading = undefined;
+            });
+        await this.loading;
+    }
+}
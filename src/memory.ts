@@ -1,28 +1,300 @@
-import { createMemoryStore, createVectorStore } from "@daydreamsai/core";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { env } from "./config";
+import type { OrderDetails } from "./types";
+import type { BatchOrderResult } from "./paradex";
+import type { ParadexFill } from "./schemas";
 
-export const orderStore = createMemoryStore();
-export const orderVectorStore = createVectorStore();
+export type OrderStatus =
+    | 'NEW'
+    | 'OPEN'
+    | 'PARTIALLY_FILLED'
+    | 'FILLED'
+    | 'CANCELLED'
+    | 'REJECTED';
 
 interface OrderData {
     market: string;
     side: 'BUY' | 'SELL';
-    type: 'MARKET' | 'LIMIT';
+    type: string;
     size: string;
     price?: string;
+    triggerPrice?: string;
     timestamp: number;
     status: string;
     response: any;
     executionType: string;
     originalRequest: string;
+    // Name of the account the order was sent from
+    account?: string;
 }
 
-// Store order history
-export async function storeOrder(orderId: string, orderData: OrderData) {
-    await orderStore.set(orderId, orderData);
-    await orderVectorStore.upsert(orderId, [orderData]);
+export interface OrderFill {
+    id: string;
+    size: string;
+    price: string;
+    fee: string;
+    timestamp: number;
+}
+
+export interface OrderRecord extends Omit<OrderData, 'status'> {
+    orderId: string;
+    status: OrderStatus;
+    filledSize: string;
+    fees: string;
+    fills: OrderFill[];
+    history: Array<{ status: OrderStatus; timestamp: number; reason?: string }>;
+}
+
+export interface OrderQuery {
+    account?: string;
+    market?: string;
+    side?: 'BUY' | 'SELL';
+    status?: OrderStatus;
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
+// One line of the append-only journal, replayed in order on startup
+type JournalEntry =
+    | { kind: 'order'; orderId: string; timestamp: number; status: OrderStatus; order: Partial<OrderData> }
+    | { kind: 'status'; orderId: string; timestamp: number; status: OrderStatus; reason?: string }
+    | { kind: 'fill'; orderId: string; timestamp: number; fill: OrderFill; order?: Partial<OrderData> };
+
+const TERMINAL_STATUSES: OrderStatus[] = ['FILLED', 'CANCELLED', 'REJECTED'];
+
+class OrderJournal {
+    private readonly filePath: string;
+    private records = new Map<string, OrderRecord>();
+    private loading?: Promise<void>;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async append(entry: JournalEntry): Promise<OrderRecord> {
+        await this.load();
+        const record = this.apply(entry);
+        // Appends are chained so lines never interleave. A failed append fails its
+        // own caller, the chain carries on for the next ones.
+        const write = this.writes.then(() =>
+            appendFile(this.filePath, JSON.stringify(entry) + "\n"),
+        );
+        this.writes = write.catch((error) => console.error('Failed to append to the order journal:', error));
+        await write;
+        return record;
+    }
+
+    async get(orderId: string): Promise<OrderRecord | null> {
+        await this.load();
+        return this.records.get(orderId) ?? null;
+    }
+
+    async query(filter: OrderQuery): Promise<OrderRecord[]> {
+        await this.load();
+        return [...this.records.values()]
+            .filter((record) =>
+                (!filter.account || record.account === filter.account) &&
+                (!filter.market || record.market === filter.market) &&
+                (!filter.side || record.side === filter.side) &&
+                (!filter.status || record.status === filter.status) &&
+                (!filter.from || record.timestamp >= filter.from) &&
+                (!filter.to || record.timestamp <= filter.to))
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, filter.limit ?? Infinity);
+    }
+
+    private load(): Promise<void> {
+        this.loading ??= (async () => {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            const content = await readFile(this.filePath, "utf8").catch(() => "");
+            for (const line of content.split("\n")) {
+                if (!line.trim()) continue;
+                try {
+                    this.apply(JSON.parse(line));
+                } catch (error) {
+                    console.error('Skipping corrupt order journal line:', error);
+                }
+            }
+        })();
+        return this.loading;
+    }
+
+    private apply(entry: JournalEntry): OrderRecord {
+        const record = this.records.get(entry.orderId) ?? {
+            orderId: entry.orderId,
+            market: '',
+            side: 'BUY',
+            type: '',
+            size: '0',
+            timestamp: entry.timestamp,
+            response: undefined,
+            executionType: '',
+            originalRequest: '',
+            status: 'NEW',
+            filledSize: '0',
+            fees: '0',
+            fills: [],
+            history: [],
+        };
+
+        if (entry.kind === 'order' || (entry.kind === 'fill' && entry.order && !record.market)) {
+            const { status: _status, ...order } = entry.order ?? {};
+            Object.assign(record, order);
+        }
+
+        if (entry.kind === 'fill') {
+            if (record.fills.some((fill) => fill.id === entry.fill.id)) {
+                return record;
+            }
+            record.fills.push(entry.fill);
+            record.filledSize = sum(record.fills.map((fill) => fill.size));
+            record.fees = sum(record.fills.map((fill) => fill.fee));
+            const status = Number(record.filledSize) >= Number(record.size) && Number(record.size) > 0
+                ? 'FILLED'
+                : 'PARTIALLY_FILLED';
+            this.transition(record, status, entry.timestamp);
+        } else {
+            this.transition(record, entry.status, entry.timestamp, entry.kind === 'status' ? entry.reason : undefined);
+        }
+
+        this.records.set(entry.orderId, record);
+        return record;
+    }
+
+    private transition(record: OrderRecord, status: OrderStatus, timestamp: number, reason?: string) {
+        // Late updates (e.g. an OPEN event after the fill) never reopen a finished order
+        if (TERMINAL_STATUSES.includes(record.status) && record.history.length && !TERMINAL_STATUSES.includes(status)) {
+            return;
+        }
+        if (record.status === status && record.history.length) {
+            return;
+        }
+        record.status = status;
+        record.history.push({ status, timestamp, ...(reason && { reason }) });
+    }
+}
+
+function sum(values: string[]): string {
+    return Number(values.reduce((total, value) => total + Number(value || 0), 0).toFixed(10)).toString();
+}
+
+const orderJournal = new OrderJournal(path.join(env.dataDir ?? "data", "orders.jsonl"));
+
+// Maps a raw Paradex order (NEW/UNTRIGGERED/OPEN/CLOSED) onto the journal lifecycle
+export function statusFromParadexOrder(order: {
+    status?: string;
+    size?: string;
+    remaining_size?: string;
+    cancel_reason?: string;
+}): OrderStatus {
+    const size = Number(order.size ?? 0);
+    const remaining = Number(order.remaining_size ?? size);
+    const filled = size - remaining;
+
+    switch (order.status) {
+        case 'CLOSED':
+            if (remaining === 0 && size > 0) return 'FILLED';
+            return 'CANCELLED';
+        case 'OPEN':
+        case 'UNTRIGGERED':
+            return filled > 0 ? 'PARTIALLY_FILLED' : 'OPEN';
+        default:
+            return 'NEW';
+    }
+}
+
+// Store order history. `fills` are the ones the order already had when it was
+// placed, journalled under their exchange ids so the feed doesn't add them twice.
+export async function storeOrder(orderId: string, orderData: OrderData, fills: ParadexFill[] = []) {
+    const status = statusFromParadexOrder({
+        status: orderData.status,
+        size: orderData.size,
+        ...orderData.response,
+    });
+
+    let record = await orderJournal.append({
+        kind: 'order',
+        orderId,
+        timestamp: orderData.timestamp,
+        status: 'NEW',
+        order: orderData,
+    });
+
+    for (const fill of fills) {
+        record = await recordFill(orderId, {
+            id: String(fill.id),
+            size: fill.size,
+            price: fill.price,
+            fee: fill.fee ?? '0',
+            timestamp: fill.created_at ?? orderData.timestamp,
+        });
+    }
+    if (status !== 'NEW') {
+        record = await recordOrderStatus(orderId, status, orderData.response?.cancel_reason || undefined);
+    }
+    return record;
+}
+
+let rejectedSequence = 0;
+
+export async function recordRejectedOrder(orderData: OrderData, reason: string) {
+    // Batches can reject several orders within the same millisecond
+    const orderId = `rejected-${orderData.timestamp}-${rejectedSequence++}`;
+    await orderJournal.append({
+        kind: 'order',
+        orderId,
+        timestamp: orderData.timestamp,
+        status: 'NEW',
+        order: orderData,
+    });
+    return recordOrderStatus(orderId, 'REJECTED', reason);
+}
+
+// Journals every order of a batch, rejected ones included
+export async function journalBatchResults(
+    orders: OrderDetails[],
+    results: BatchOrderResult[],
+    executionType: string,
+    originalRequest: string,
+    account?: string,
+) {
+    await Promise.all(results.map((result, i) => {
+        const orderData = {
+            market: orders[i].market,
+            side: orders[i].side as 'BUY' | 'SELL',
+            type: orders[i].type,
+            size: orders[i].size,
+            price: orders[i].price,
+            triggerPrice: orders[i].triggerPrice,
+            timestamp: Date.now(),
+            status: result.status,
+            response: result.data ?? result,
+            executionType,
+            originalRequest,
+            account
+        };
+        return result.orderId
+            ? storeOrder(result.orderId, orderData, result.fills)
+            : recordRejectedOrder(orderData, result.error ?? result.status);
+    }));
+}
+
+export async function recordOrderStatus(orderId: string, status: OrderStatus, reason?: string) {
+    return orderJournal.append({ kind: 'status', orderId, timestamp: Date.now(), status, reason });
+}
+
+export async function recordFill(orderId: string, fill: OrderFill, order?: Partial<OrderData>) {
+    return orderJournal.append({ kind: 'fill', orderId, timestamp: fill.timestamp, fill, order });
 }
 
 // Retrieve order history
-export async function getOrder(orderId: string): Promise<OrderData | null> {
-    return await orderStore.get(orderId);
-} 
\ No newline at end of file
+export async function getOrder(orderId: string): Promise<OrderRecord | null> {
+    return orderJournal.get(orderId);
+}
+
+export async function queryOrders(filter: OrderQuery): Promise<OrderRecord[]> {
+    return orderJournal.query(filter);
+}
@@ -0,0 +1,528 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { createHmac, randomBytes } from "crypto";
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ec, encode, shortString, type TypedData } from "starknet";
+import { z } from "zod";
+import {
+    buildAuthMessage,
+    buildAuthTypedData,
+    buildOrderMessage,
+    buildOrderTypedData,
+    verifyTypedDataSignature,
+} from "./paradex";
+import { getPaperExchange, PaperExchangeError } from "./paper";
+import type { OrderDetails } from "./types";
+
+// Local stand-in for the Paradex REST API. Signatures are verified exactly like
+// Paradex does, orders are matched by the paper trading engine.
+
+const envSchema = z.object({
+    PARADEX_ACCOUNT_ADDRESS: z.string().min(1),
+    PARADEX_PRIVATE_KEY: z.string().optional(),
+    PARADEX_PUBLIC_KEY: z.string().optional(),
+    PARADEX_CHAIN_ID: z.string().min(1),
+    PARADEX_ACCOUNTS: z.string().default(""),
+    MOCK_SERVER_PORT: z.coerce.number().int().positive().default(8089),
+    MOCK_SERVER_BALANCE: z.coerce.number().positive().default(10000),
+    MOCK_SERVER_JWT_SECRET: z.string().optional(),
+});
+
+export interface MockServerOptions {
+    chainId: string;
+    // Known accounts, keyed by address, with their full Stark public key
+    accounts: Record<string, string>;
+    initialBalance: number;
+    jwtSecret: string;
+}
+
+interface MockMarket {
+    symbol: string;
+    base_currency: string;
+    quote_currency: string;
+    settlement_currency: string;
+    asset_kind: string;
+    order_size_increment: string;
+    price_tick_size: string;
+    min_notional: string;
+    max_order_size: string;
+    fee_config: { api_fee: { maker_fee: { fee: string }; taker_fee: { fee: string } } };
+    last_price: string;
+    mark_price: string;
+    index_price: string;
+    open_interest: string;
+    funding_rate: string;
+    volume_24h: string;
+    trades_24h: string;
+    price_change_24h: string;
+}
+
+const JWT_LIFETIME_SECONDS = 5 * 60;
+const PRICE_TICK_INTERVAL_MS = 5000;
+
+function createMockMarkets(): MockMarket[] {
+    const market = (
+        base: string,
+        price: number,
+        sizeIncrement: string,
+        tickSize: string,
+        maxOrderSize: string,
+    ): MockMarket => ({
+        symbol: `${base}-USD-PERP`,
+        base_currency: base,
+        quote_currency: "USD",
+        settlement_currency: "USDC",
+        asset_kind: "PERP",
+        order_size_increment: sizeIncrement,
+        price_tick_size: tickSize,
+        min_notional: "10",
+        max_order_size: maxOrderSize,
+        fee_config: { api_fee: { maker_fee: { fee: "0.0002" }, taker_fee: { fee: "0.0005" } } },
+        last_price: price.toString(),
+        mark_price: price.toString(),
+        index_price: price.toString(),
+        open_interest: "1500",
+        funding_rate: "0.0001",
+        volume_24h: "25000000",
+        trades_24h: "12000",
+        price_change_24h: "0",
+    });
+
+    return [
+        market("BTC", 65000, "0.001", "0.1", "100"),
+        market("ETH", 3000, "0.01", "0.01", "1000"),
+        market("SOL", 150, "0.1", "0.001", "100000"),
+    ];
+}
+
+// Random walk of at most ±0.1% per tick, so resting limit orders eventually cross
+function tickPrices(markets: MockMarket[], openPrices: Map<string, number>) {
+    for (const market of markets) {
+        const last = Number(market.last_price);
+        const next = last * (1 + (Math.random() - 0.5) * 0.002);
+        const tickSize = Number(market.price_tick_size);
+        const rounded = (Math.round(next / tickSize) * tickSize).toFixed(
+            Math.max(0, -Math.floor(Math.log10(tickSize))),
+        );
+        const open = openPrices.get(market.symbol) ?? last;
+
+        market.last_price = rounded;
+        market.mark_price = rounded;
+        market.index_price = rounded;
+        market.price_change_24h = (Number(rounded) - open).toString();
+    }
+}
+
+// Book around the last price: levels 2.5 bps apart, each deeper level holding
+// more size, starting near 5000 USD at the top
+function mockOrderBook(market: MockMarket, depth: number) {
+    const price = Number(market.last_price);
+    const tickSize = Number(market.price_tick_size);
+    const sizeIncrement = Number(market.order_size_increment);
+    const priceDecimals = Math.max(0, -Math.floor(Math.log10(tickSize)));
+    const sizeDecimals = Math.max(0, -Math.floor(Math.log10(sizeIncrement)));
+    const step = Math.max(tickSize, Math.round(price * 0.00025 / tickSize) * tickSize);
+    const topSize = Math.max(sizeIncrement, Math.round(5000 / price / sizeIncrement) * sizeIncrement);
+
+    const levels = (direction: 1 | -1) => Array.from({ length: depth }, (_, i) => [
+        (price + direction * step * (i + 1)).toFixed(priceDecimals),
+        (topSize * (i + 1)).toFixed(sizeDecimals),
+    ]);
+    return {
+        market: market.symbol,
+        bids: levels(-1),
+        asks: levels(1),
+        seq_no: Date.now(),
+        last_updated_at: Date.now(),
+    };
+}
+
+// Smooth deterministic price history that ends at the current last price
+function mockCandles(market: MockMarket, resolution: number, startAt: number, endAt: number) {
+    const price = Number(market.last_price);
+    const shape = (t: number) =>
+        1 + 0.03 * Math.sin(t / (9 * 3600 * 1000)) + 0.008 * Math.sin(t / (53 * 60 * 1000)) + 0.002 * Math.sin(t / 7e5);
+    const scale = price / shape(Date.now());
+    const step = resolution * 60 * 1000;
+    const candles: number[][] = [];
+    for (let time = Math.ceil(startAt / step) * step; time <= endAt; time += step) {
+        const open = shape(time) * scale;
+        const close = shape(Math.min(time + step, Date.now())) * scale;
+        candles.push([
+            time,
+            open,
+            Math.max(open, close) * 1.0008,
+            Math.min(open, close) * 0.9992,
+            close,
+            (1 + 0.5 * Math.sin(time / (5 * 3600 * 1000))) * 20000 / price * resolution,
+        ]);
+    }
+    return candles;
+}
+
+function base64Url(input: Buffer | string): string {
+    return Buffer.from(input).toString("base64url");
+}
+
+function signJwt(payload: Record<string, unknown>, secret: string): string {
+    const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+    const body = base64Url(JSON.stringify(payload));
+    const signature = createHmac("sha256", secret).update(`${header}.${body}`).digest();
+    return `${header}.${body}.${base64Url(signature)}`;
+}
+
+function verifyJwt(token: string, secret: string): { sub: string; exp: number } | undefined {
+    const [header, body, signature] = token.split(".");
+    if (!header || !body || !signature) return undefined;
+
+    const expected = base64Url(
+        createHmac("sha256", secret).update(`${header}.${body}`).digest(),
+    );
+    if (expected !== signature) return undefined;
+
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString());
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+        return undefined;
+    }
+    return payload;
+}
+
+// Paradex exposes only the x coordinate of the Stark key, try both y parities
+function publicKeyCandidates(publicKey: string): string[] {
+    const hex = encode.removeHexPrefix(publicKey).padStart(64, "0");
+    if (hex.length > 64) return [encode.addHexPrefix(hex)];
+    return ["0x02" + hex, "0x03" + hex];
+}
+
+function sendError(res: Response, status: number, error: string, message: string) {
+    res.status(status).json({ error, message });
+}
+
+function sendOrder(res: Response, lookup: () => unknown) {
+    try {
+        res.json(lookup());
+    } catch (error) {
+        if (error instanceof PaperExchangeError) {
+            sendError(res, 404, error.code, error.message);
+            return;
+        }
+        throw error;
+    }
+}
+
+export function createMockServer(options: MockServerOptions) {
+    const app = express();
+    const markets = createMockMarkets();
+    const openPrices = new Map(markets.map((m) => [m.symbol, Number(m.last_price)]));
+    const accounts = new Map(
+        Object.entries(options.accounts).map(([address, key]) => [BigInt(address), key]),
+    );
+
+    const priceTimer = setInterval(() => tickPrices(markets, openPrices), PRICE_TICK_INTERVAL_MS);
+    priceTimer.unref?.();
+
+    const findPublicKey = (address: string): string | undefined => {
+        try {
+            return accounts.get(BigInt(address));
+        } catch {
+            return undefined;
+        }
+    };
+
+    const verifySignature = (address: string, typedData: TypedData, signature: string) => {
+        const publicKey = findPublicKey(address);
+        if (!publicKey) return false;
+        return publicKeyCandidates(publicKey).some((candidate) =>
+            verifyTypedDataSignature(address, candidate, typedData, signature),
+        );
+    };
+
+    const exchangeFor = (address: string) => {
+        const exchange = getPaperExchange(address, options.initialBalance);
+        exchange.updatePrices(markets);
+        return exchange;
+    };
+
+    const requireJwt = (req: Request, res: Response, next: NextFunction) => {
+        const authorization = req.header("Authorization") ?? "";
+        const token = authorization.replace(/^Bearer\s+/i, "");
+        const payload = token ? verifyJwt(token, options.jwtSecret) : undefined;
+        if (!payload) {
+            sendError(res, 401, "INVALID_TOKEN", "Missing, invalid or expired JWT");
+            return;
+        }
+        res.locals.address = payload.sub;
+        next();
+    };
+
+    app.use(express.json());
+
+    app.post("/v1/auth", (req, res) => {
+        const address = req.header("PARADEX-STARKNET-ACCOUNT");
+        const signature = req.header("PARADEX-STARKNET-SIGNATURE");
+        const timestamp = Number(req.header("PARADEX-TIMESTAMP"));
+        const expiration = Number(req.header("PARADEX-SIGNATURE-EXPIRATION"));
+
+        if (!address || !signature || !timestamp || !expiration) {
+            sendError(res, 400, "MISSING_HEADERS", "Paradex authentication headers are required");
+            return;
+        }
+        if (expiration * 1000 < Date.now()) {
+            sendError(res, 401, "SIGNATURE_EXPIRED", "Authentication signature has expired");
+            return;
+        }
+
+        const typedData = buildAuthTypedData(
+            buildAuthMessage(timestamp, expiration),
+            options.chainId,
+        );
+        if (!verifySignature(address, typedData, signature)) {
+            sendError(res, 401, "INVALID_SIGNATURE", "Stark signature verification failed");
+            return;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const jwt_token = signJwt(
+            { sub: address, type: "auth", iat: now, exp: now + JWT_LIFETIME_SECONDS },
+            options.jwtSecret,
+        );
+        res.json({ jwt_token });
+    });
+
+    app.get("/v1/markets", (req, res) => {
+        const market = req.query.market;
+        const results = market ? markets.filter((m) => m.symbol === market) : markets;
+        res.json({ results });
+    });
+
+    app.get("/v1/markets/summary", (req, res) => {
+        const market = req.query.market;
+        const selected = market && market !== "ALL" ? markets.filter((m) => m.symbol === market) : markets;
+        res.json({
+            results: selected.map((m) => ({
+                symbol: m.symbol,
+                mark_price: m.mark_price,
+                last_traded_price: m.last_price,
+                underlying_price: m.index_price,
+                volume_24h: m.volume_24h,
+                open_interest: m.open_interest,
+                funding_rate: m.funding_rate,
+                price_change_rate_24h: (Number(m.price_change_24h) / Number(m.last_price)).toString(),
+                created_at: Date.now(),
+            })),
+        });
+    });
+
+    app.get("/v1/markets/klines", (req, res) => {
+        const market = markets.find((m) => m.symbol === req.query.symbol);
+        if (!market) {
+            sendError(res, 404, "MARKET_NOT_FOUND", `Market ${req.query.symbol} not found`);
+            return;
+        }
+        const resolution = Number(req.query.resolution) || 60;
+        const endAt = Number(req.query.end_at) || Date.now();
+        const startAt = Number(req.query.start_at) || endAt - 100 * resolution * 60 * 1000;
+        // Paradex caps a response, so do the same
+        res.json({ results: mockCandles(market, resolution, startAt, endAt).slice(-1000) });
+    });
+
+    app.get("/v1/funding/data", (req, res) => {
+        const market = markets.find((m) => m.symbol === req.query.market);
+        if (!market) {
+            sendError(res, 404, "MARKET_NOT_FOUND", `Market ${req.query.market} not found`);
+            return;
+        }
+        const endAt = Number(req.query.end_at) || Date.now();
+        const startAt = Number(req.query.start_at) || endAt - 24 * 3600 * 1000;
+        const hour = 3600 * 1000;
+        const results = [];
+        for (let time = Math.ceil(startAt / hour) * hour; time <= endAt; time += hour) {
+            results.push({
+                market: market.symbol,
+                funding_rate: (Number(market.funding_rate) * (1 + 0.5 * Math.sin(time / (11 * hour)))).toFixed(8),
+                funding_premium: "0",
+                created_at: time,
+            });
+        }
+        // Newest first, like Paradex
+        res.json({ results: results.reverse().slice(0, Number(req.query.page_size) || 100) });
+    });
+
+    app.get("/v1/orderbook/:market", (req, res) => {
+        const market = markets.find((m) => m.symbol === req.params.market);
+        if (!market) {
+            sendError(res, 404, "MARKET_NOT_FOUND", `Market ${req.params.market} not found`);
+            return;
+        }
+        res.json(mockOrderBook(market, Math.min(Math.max(Number(req.query.depth) || 20, 1), 100)));
+    });
+
+    app.get("/v1/account", requireJwt, (_req, res) => {
+        res.json(exchangeFor(res.locals.address).getAccountInfo());
+    });
+
+    app.get("/v1/positions", requireJwt, (_req, res) => {
+        res.json({ results: exchangeFor(res.locals.address).getPositions() });
+    });
+
+    app.get("/v1/orders", requireJwt, (_req, res) => {
+        res.json({ results: exchangeFor(res.locals.address).getOpenOrders() });
+    });
+
+    app.get("/v1/orders/by_client_id/:clientId", requireJwt, (req, res) => {
+        sendOrder(res, () => exchangeFor(res.locals.address).getOrderByClientId(req.params.clientId));
+    });
+
+    app.get("/v1/orders/:id", requireJwt, (req, res) => {
+        sendOrder(res, () => exchangeFor(res.locals.address).getOrder(req.params.id));
+    });
+
+    app.get("/v1/fills", requireJwt, (req, res) => {
+        const { market, start_at, end_at, page_size } = req.query;
+        const fills = exchangeFor(res.locals.address).getFills().reverse().filter((fill) =>
+            (!market || fill.market === market) &&
+            (!start_at || fill.created_at >= Number(start_at)) &&
+            (!end_at || fill.created_at <= Number(end_at)));
+        res.json({ results: fills.slice(0, Number(page_size) || 100) });
+    });
+
+    app.get("/v1/balance", requireJwt, (_req, res) => {
+        res.json({ results: exchangeFor(res.locals.address).getBalances() });
+    });
+
+    // Simulated accounts never move funds or pay funding
+    app.get("/v1/funding/payments", requireJwt, (_req, res) => {
+        res.json({ results: [] });
+    });
+
+    app.get("/v1/transfers", requireJwt, (_req, res) => {
+        res.json({ results: [] });
+    });
+
+    app.post("/v1/orders", requireJwt, (req, res) => {
+        const { signature, signature_timestamp, trigger_price, flags, instruction, client_id, ...rest } = req.body ?? {};
+        const orderDetails: OrderDetails = {
+            ...rest,
+            ...(instruction && { timeInForceType: instruction }),
+            ...(trigger_price && { triggerPrice: trigger_price }),
+            ...(client_id && { clientId: client_id }),
+            reduceOnly: Array.isArray(flags) && flags.includes("REDUCE_ONLY"),
+        };
+
+        if (!orderDetails.market || !orderDetails.side || !orderDetails.type || !orderDetails.size) {
+            sendError(res, 400, "VALIDATION_ERROR", "market, side, type and size are required");
+            return;
+        }
+        if (!signature || !signature_timestamp) {
+            sendError(res, 400, "VALIDATION_ERROR", "signature and signature_timestamp are required");
+            return;
+        }
+
+        let typedData: TypedData;
+        try {
+            typedData = buildOrderTypedData(
+                buildOrderMessage(orderDetails, Number(signature_timestamp)),
+                options.chainId,
+            );
+        } catch (error) {
+            // Sizes and prices that don't fit the signed quantums, or an overlong market name
+            sendError(res, 400, "VALIDATION_ERROR", `Invalid order: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (!verifySignature(res.locals.address, typedData, signature)) {
+            sendError(res, 400, "INVALID_ORDER_SIGNATURE", "Order signature verification failed");
+            return;
+        }
+
+        try {
+            const order = exchangeFor(res.locals.address).submitOrder(orderDetails);
+            res.status(201).json(order);
+        } catch (error) {
+            if (error instanceof PaperExchangeError) {
+                sendError(res, 400, error.code, error.message);
+                return;
+            }
+            throw error;
+        }
+    });
+
+    app.delete("/v1/orders/batch", requireJwt, (req, res) => {
+        const orderIds: unknown = req.body?.order_ids;
+        if (!Array.isArray(orderIds) || !orderIds.length) {
+            sendError(res, 400, "VALIDATION_ERROR", "order_ids must be a non-empty array");
+            return;
+        }
+
+        const exchange = exchangeFor(res.locals.address);
+        const results = orderIds.map((id) => {
+            try {
+                const order = exchange.cancelOrder(String(id));
+                return { id: order.id, market: order.market, status: "QUEUED_FOR_CANCELLATION" };
+            } catch (error) {
+                if (error instanceof PaperExchangeError) {
+                    const status = error.code === "ORDER_ID_NOT_FOUND" ? "NOT_FOUND" : "ALREADY_CLOSED";
+                    return { id: String(id), status, error: error.message };
+                }
+                throw error;
+            }
+        });
+        res.json({ results });
+    });
+
+    app.delete("/v1/orders/:id", requireJwt, (req, res) => {
+        try {
+            exchangeFor(res.locals.address).cancelOrder(req.params.id);
+            res.status(204).end();
+        } catch (error) {
+            if (error instanceof PaperExchangeError) {
+                sendError(res, error.code === "ORDER_ID_NOT_FOUND" ? 404 : 400, error.code, error.message);
+                return;
+            }
+            throw error;
+        }
+    });
+
+    return app;
+}
+
+function loadOptionsFromEnv() {
+    const dirname = path.dirname(fileURLToPath(import.meta.url));
+    dotenv.config({ path: path.resolve(dirname, "..", ".env") });
+
+    const env = envSchema.parse(process.env);
+    const publicKey = env.PARADEX_PRIVATE_KEY
+        ? encode.addHexPrefix(encode.buf2hex(ec.starkCurve.getPublicKey(env.PARADEX_PRIVATE_KEY, false)))
+        : env.PARADEX_PUBLIC_KEY;
+
+    if (!publicKey) {
+        throw new Error("PARADEX_PRIVATE_KEY or PARADEX_PUBLIC_KEY is required to verify signatures");
+    }
+
+    // Further accounts configured for the agent, see PARADEX_ACCOUNTS in config.ts
+    const accounts: Record<string, string> = { [env.PARADEX_ACCOUNT_ADDRESS]: publicKey };
+    for (const name of env.PARADEX_ACCOUNTS.split(",").map((n) => n.trim()).filter(Boolean)) {
+        const prefix = `PARADEX_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+        const address = process.env[`${prefix}_ACCOUNT_ADDRESS`];
+        const privateKey = process.env[`${prefix}_PRIVATE_KEY`];
+        if (address && privateKey) {
+            accounts[address] = encode.addHexPrefix(encode.buf2hex(ec.starkCurve.getPublicKey(privateKey, false)));
+        }
+    }
+
+    const options: MockServerOptions = {
+        chainId: shortString.encodeShortString(env.PARADEX_CHAIN_ID),
+        accounts,
+        initialBalance: env.MOCK_SERVER_BALANCE,
+        jwtSecret: env.MOCK_SERVER_JWT_SECRET ?? randomBytes(32).toString("hex"),
+    };
+
+    return { options, port: env.MOCK_SERVER_PORT };
+}
+
+if (import.meta.main) {
+    const { options, port } = loadOptionsFromEnv();
+    createMockServer(options).listen(port, () => {
+        console.log(`Mock Paradex API listening on http://localhost:${port}/v1`);
+    });
+}
@@ -0,0 +1,437 @@
+import type { OrderDetails } from "./types";
+import type { ParadexFill, ParadexOrder, Position } from "./schemas";
+
+// Local simulated matching engine used when paper trading is enabled.
+// Prices come from the real `/markets` data, orders and balances never leave the process.
+
+interface PaperMarketPrice {
+    symbol: string;
+    last_price?: string;
+    mark_price?: string;
+    fee_config?: { api_fee?: { maker_fee?: { fee: string }; taker_fee?: { fee: string } } };
+}
+
+// Paper orders and fills have the same shape as the API responses
+type PaperOrder = ParadexOrder;
+type PaperFill = ParadexFill;
+
+interface PaperPositionState {
+    size: number;
+    averageEntryPrice: number;
+    realizedPnl: number;
+    lastUpdatedAt: number;
+}
+
+export class PaperExchangeError extends Error {
+    readonly code: string;
+
+    constructor(code: string, message: string) {
+        super(message);
+        this.name = 'PaperExchangeError';
+        this.code = code;
+    }
+}
+
+// Initial margin fraction applied to every simulated position (10x max leverage).
+const PAPER_INITIAL_MARGIN_FRACTION = 0.1;
+const PAPER_MAINTENANCE_MARGIN_FRACTION = 0.05;
+// Fee rates for markets whose /markets entry carries no fee config
+const DEFAULT_MAKER_FEE_RATE = 0.0002;
+const DEFAULT_TAKER_FEE_RATE = 0.0005;
+
+const TRIGGER_ORDER_TYPES = ['STOP_MARKET', 'STOP_LIMIT', 'TAKE_PROFIT_MARKET', 'TAKE_PROFIT_LIMIT'];
+
+let orderSequence = 0;
+
+function nextId(): string {
+    orderSequence = (orderSequence + 1) % 100000;
+    return `${Date.now()}${orderSequence.toString().padStart(5, '0')}`;
+}
+
+// Keeps repeated float additions from leaving dust positions behind
+function roundSize(size: number): number {
+    return Number(size.toFixed(10));
+}
+
+export class PaperExchange {
+    private readonly address: string;
+    private collateral: number;
+    private prices = new Map<string, number>();
+    private feeRates = new Map<string, { MAKER: number; TAKER: number }>();
+    private orders = new Map<string, PaperOrder>();
+    private positions = new Map<string, PaperPositionState>();
+    private fills: PaperFill[] = [];
+
+    constructor(address: string, initialBalance: number) {
+        this.address = address;
+        this.collateral = initialBalance;
+    }
+
+    updatePrices(markets: PaperMarketPrice[]) {
+        for (const market of markets) {
+            const price = Number(market.last_price || market.mark_price);
+            if (price > 0) {
+                this.prices.set(market.symbol, price);
+            }
+            const fees = market.fee_config?.api_fee;
+            if (fees) {
+                this.feeRates.set(market.symbol, {
+                    MAKER: Number(fees.maker_fee?.fee ?? DEFAULT_MAKER_FEE_RATE),
+                    TAKER: Number(fees.taker_fee?.fee ?? DEFAULT_TAKER_FEE_RATE),
+                });
+            }
+        }
+        this.triggerOrders();
+        this.matchRestingOrders();
+    }
+
+    submitOrder(orderDetails: OrderDetails): PaperOrder {
+        const marketPrice = this.prices.get(orderDetails.market);
+        if (!marketPrice) {
+            throw new PaperExchangeError(
+                'MARKET_NOT_FOUND',
+                `Order failed: market ${orderDetails.market} has no price available`,
+            );
+        }
+
+        const size = Number(orderDetails.size);
+        if (!(size > 0)) {
+            throw new PaperExchangeError('INVALID_ORDER_SIZE', "Order failed: size must be a positive number.");
+        }
+
+        const side = orderDetails.side === 'SELL' ? 'SELL' : 'BUY';
+        const isTrigger = TRIGGER_ORDER_TYPES.includes(orderDetails.type);
+        const isMarket = orderDetails.type.endsWith('MARKET');
+        const triggerPrice = Number(orderDetails.triggerPrice);
+
+        if (isTrigger && !(triggerPrice > 0)) {
+            throw new PaperExchangeError(
+                'INVALID_TRIGGER_PRICE',
+                `Order failed: ${orderDetails.type} orders require a positive trigger price.`,
+            );
+        }
+
+        if (!isMarket && !(Number(orderDetails.price) > 0)) {
+            throw new PaperExchangeError(
+                'INVALID_PRICE',
+                `Order failed: ${orderDetails.type} orders require a positive limit price.`,
+            );
+        }
+
+        if (!orderDetails.reduceOnly) {
+            const referencePrice = isMarket ? (isTrigger ? triggerPrice : marketPrice) : Number(orderDetails.price);
+            this.assertMargin(orderDetails.market, side, size, referencePrice);
+        }
+
+        const now = Date.now();
+        const order: PaperOrder = {
+            id: nextId(),
+            account: this.address,
+            market: orderDetails.market,
+            side,
+            type: orderDetails.type,
+            size: orderDetails.size,
+            remaining_size: orderDetails.size,
+            price: isMarket ? '0' : orderDetails.price ?? '0',
+            trigger_price: isTrigger ? orderDetails.triggerPrice! : '',
+            flags: orderDetails.reduceOnly ? ['REDUCE_ONLY'] : [],
+            avg_fill_price: '',
+            instruction: orderDetails.timeInForceType || (isMarket ? 'IOC' : 'GTC'),
+            client_id: orderDetails.clientId ?? '',
+            status: 'NEW',
+            cancel_reason: '',
+            created_at: now,
+            last_updated_at: now,
+        };
+        this.orders.set(order.id, order);
+
+        if (isTrigger && !this.isTriggered(order, marketPrice)) {
+            order.status = 'UNTRIGGERED';
+        } else {
+            this.executeOrder(order, marketPrice);
+        }
+
+        return { ...order };
+    }
+
+    cancelOrder(orderId: string): PaperOrder {
+        const order = this.orders.get(orderId);
+        if (!order) {
+            throw new PaperExchangeError('ORDER_ID_NOT_FOUND', `Order ${orderId} not found`);
+        }
+        if (order.status === 'CLOSED') {
+            throw new PaperExchangeError('ORDER_IS_CLOSED', `Order ${orderId} is already closed`);
+        }
+        this.closeOrder(order, 'USER_CANCELED');
+        return { ...order };
+    }
+
+    getOpenOrders(): PaperOrder[] {
+        return [...this.orders.values()]
+            .filter((order) => order.status !== 'CLOSED')
+            .map((order) => ({ ...order }));
+    }
+
+    getOrder(orderId: string): PaperOrder {
+        const order = this.orders.get(orderId);
+        if (!order) {
+            throw new PaperExchangeError('ORDER_ID_NOT_FOUND', `Order ${orderId} not found`);
+        }
+        return { ...order };
+    }
+
+    getOrderByClientId(clientId: string): PaperOrder {
+        // The latest order wins when a client id was reused after the first one closed
+        const order = [...this.orders.values()].reverse().find((o) => o.client_id === clientId);
+        if (!order) {
+            throw new PaperExchangeError('ORDER_ID_NOT_FOUND', `No order with client id ${clientId}`);
+        }
+        return { ...order };
+    }
+
+    getFills(): PaperFill[] {
+        return this.fills.map((fill) => ({ ...fill }));
+    }
+
+    getBalances() {
+        return [{ token: 'USDC', size: this.collateral.toString(), last_updated_at: Date.now() }];
+    }
+
+    getPositions(): Position[] {
+        return [...this.positions.entries()]
+            .filter(([, position]) => position.size !== 0)
+            .map(([market, position]) => {
+                const markPrice = this.prices.get(market) ?? position.averageEntryPrice;
+                return {
+                    id: `${this.address}-${market}`,
+                    market,
+                    side: position.size > 0 ? 'LONG' : 'SHORT',
+                    size: position.size.toString(),
+                    average_entry_price: position.averageEntryPrice.toString(),
+                    unrealized_pnl: this.unrealizedPnl(position, markPrice).toString(),
+                    realized_pnl: position.realizedPnl.toString(),
+                    status: 'OPEN',
+                    last_updated_at: position.lastUpdatedAt,
+                };
+            });
+    }
+
+    getAccountInfo() {
+        const { accountValue, initialMargin, maintenanceMargin } = this.marginSummary();
+        return {
+            account: this.address,
+            account_value: accountValue.toString(),
+            total_collateral: this.collateral.toString(),
+            free_collateral: (accountValue - initialMargin).toString(),
+            initial_margin_requirement: initialMargin.toString(),
+            maintenance_margin_requirement: maintenanceMargin.toString(),
+            margin_cushion: (accountValue - maintenanceMargin).toString(),
+            settlement_asset: 'USDC',
+            status: 'ACTIVE',
+            updated_at: Date.now(),
+        };
+    }
+
+    private executeOrder(order: PaperOrder, marketPrice: number) {
+        if (order.type.endsWith('MARKET')) {
+            this.fillOrder(order, marketPrice, 'TAKER');
+        } else if (order.instruction === 'POST_ONLY' && this.isCrossed(order, marketPrice)) {
+            this.closeOrder(order, 'POST_ONLY_WOULD_CROSS');
+        } else if (this.isCrossed(order, marketPrice)) {
+            // Marketable limit orders take liquidity at the better of the two prices
+            const limitPrice = Number(order.price);
+            const fillPrice = order.side === 'BUY'
+                ? Math.min(limitPrice, marketPrice)
+                : Math.max(limitPrice, marketPrice);
+            this.fillOrder(order, fillPrice, 'TAKER');
+        } else if (order.instruction === 'IOC') {
+            this.closeOrder(order, 'IOC_NOT_FILLED');
+        } else {
+            order.status = 'OPEN';
+            order.last_updated_at = Date.now();
+        }
+    }
+
+    private triggerOrders() {
+        for (const order of this.orders.values()) {
+            if (order.status !== 'UNTRIGGERED') continue;
+            const marketPrice = this.prices.get(order.market);
+            if (marketPrice && this.isTriggered(order, marketPrice)) {
+                this.executeOrder(order, marketPrice);
+            }
+        }
+    }
+
+    // Stops fire when price moves against the order side, take-profits when it moves in favour
+    private isTriggered(order: PaperOrder, marketPrice: number): boolean {
+        const triggerPrice = Number(order.trigger_price);
+        const buyTriggers = order.type.startsWith('STOP')
+            ? marketPrice >= triggerPrice
+            : marketPrice <= triggerPrice;
+        const sellTriggers = order.type.startsWith('STOP')
+            ? marketPrice <= triggerPrice
+            : marketPrice >= triggerPrice;
+        return order.side === 'BUY' ? buyTriggers : sellTriggers;
+    }
+
+    private matchRestingOrders() {
+        for (const order of this.orders.values()) {
+            if (order.status !== 'OPEN') continue;
+            const marketPrice = this.prices.get(order.market);
+            if (marketPrice && this.isCrossed(order, marketPrice)) {
+                this.fillOrder(order, Number(order.price), 'MAKER');
+            }
+        }
+    }
+
+    private isCrossed(order: PaperOrder, marketPrice: number): boolean {
+        const limitPrice = Number(order.price);
+        return order.side === 'BUY' ? marketPrice <= limitPrice : marketPrice >= limitPrice;
+    }
+
+    private fillOrder(order: PaperOrder, price: number, liquidity: 'TAKER' | 'MAKER') {
+        let size = Number(order.remaining_size);
+
+        if (order.flags?.includes('REDUCE_ONLY')) {
+            const positionSize = this.positions.get(order.market)?.size ?? 0;
+            const isReducing = order.side === 'BUY' ? positionSize < 0 : positionSize > 0;
+            if (!isReducing) {
+                this.closeOrder(order, 'REDUCE_ONLY_WOULD_INCREASE');
+                return;
+            }
+            size = Math.min(size, Math.abs(positionSize));
+        }
+
+        const signedSize = order.side === 'BUY' ? size : -size;
+        const realizedPnl = this.applyFill(order.market, signedSize, price);
+
+        const feeRate = this.feeRates.get(order.market)?.[liquidity] ??
+            (liquidity === 'MAKER' ? DEFAULT_MAKER_FEE_RATE : DEFAULT_TAKER_FEE_RATE);
+        const fee = size * price * feeRate;
+
+        this.collateral += realizedPnl - fee;
+        this.fills.push({
+            id: nextId(),
+            order_id: order.id,
+            market: order.market,
+            side: order.side,
+            size: size.toString(),
+            price: price.toString(),
+            fee: fee.toString(),
+            liquidity,
+            realized_pnl: realizedPnl.toString(),
+            created_at: Date.now(),
+        });
+
+        // What a reduce-only order could not close is cancelled with it
+        const unfilled = Number((Number(order.remaining_size) - size).toFixed(10));
+        order.remaining_size = unfilled.toString();
+        if (unfilled > 0) order.cancel_reason = 'REDUCE_ONLY_WOULD_INCREASE';
+        order.avg_fill_price = price.toString();
+        order.status = 'CLOSED';
+        order.last_updated_at = Date.now();
+    }
+
+    private closeOrder(order: PaperOrder, reason: string) {
+        order.status = 'CLOSED';
+        order.cancel_reason = reason;
+        order.last_updated_at = Date.now();
+    }
+
+    private applyFill(market: string, signedSize: number, price: number): number {
+        const position = this.positions.get(market) ?? {
+            size: 0,
+            averageEntryPrice: 0,
+            realizedPnl: 0,
+            lastUpdatedAt: Date.now(),
+        };
+
+        let realizedPnl = 0;
+        const isIncreasing = position.size === 0 || Math.sign(position.size) === Math.sign(signedSize);
+
+        if (isIncreasing) {
+            const newSize = roundSize(position.size + signedSize);
+            position.averageEntryPrice =
+                (Math.abs(position.size) * position.averageEntryPrice + Math.abs(signedSize) * price) /
+                Math.abs(newSize);
+            position.size = newSize;
+        } else {
+            const closingSize = Math.min(Math.abs(position.size), Math.abs(signedSize));
+            realizedPnl = closingSize * (price - position.averageEntryPrice) * Math.sign(position.size);
+            const newSize = roundSize(position.size + signedSize);
+            if (newSize !== 0 && Math.sign(newSize) !== Math.sign(position.size)) {
+                // Position flipped: the remainder opens at the fill price
+                position.averageEntryPrice = price;
+            } else if (newSize === 0) {
+                position.averageEntryPrice = 0;
+            }
+            position.size = newSize;
+        }
+
+        position.realizedPnl += realizedPnl;
+        position.lastUpdatedAt = Date.now();
+        this.positions.set(market, position);
+        return realizedPnl;
+    }
+
+    private unrealizedPnl(position: PaperPositionState, markPrice: number): number {
+        return position.size * (markPrice - position.averageEntryPrice);
+    }
+
+    // Resting and untriggered orders that may open or grow a position hold initial
+    // margin for their full size at their limit (or trigger) price
+    private marginSummary() {
+        let unrealizedPnl = 0;
+        let notional = 0;
+        for (const [market, position] of this.positions) {
+            const markPrice = this.prices.get(market) ?? position.averageEntryPrice;
+            unrealizedPnl += this.unrealizedPnl(position, markPrice);
+            notional += Math.abs(position.size) * markPrice;
+        }
+        let orderNotional = 0;
+        for (const order of this.orders.values()) {
+            if (order.status === 'CLOSED' || order.flags?.includes('REDUCE_ONLY')) continue;
+            const price = Number(order.price) || Number(order.trigger_price) || this.prices.get(order.market) || 0;
+            orderNotional += Number(order.remaining_size) * price;
+        }
+        return {
+            accountValue: this.collateral + unrealizedPnl,
+            initialMargin: (notional + orderNotional) * PAPER_INITIAL_MARGIN_FRACTION,
+            maintenanceMargin: notional * PAPER_MAINTENANCE_MARGIN_FRACTION,
+        };
+    }
+
+    private assertMargin(market: string, side: 'BUY' | 'SELL', size: number, price: number) {
+        const position = this.positions.get(market);
+        const signedSize = side === 'BUY' ? size : -size;
+        const currentSize = position?.size ?? 0;
+
+        // Orders that only shrink the position never need extra margin
+        if (Math.abs(currentSize + signedSize) <= Math.abs(currentSize)) {
+            return;
+        }
+
+        const { accountValue, initialMargin } = this.marginSummary();
+        const additionalMargin = (Math.abs(currentSize + signedSize) - Math.abs(currentSize)) *
+            price * PAPER_INITIAL_MARGIN_FRACTION;
+
+        if (initialMargin + additionalMargin > accountValue) {
+            throw new PaperExchangeError(
+                'NOT_ENOUGH_MARGIN',
+                `Order failed: insufficient free collateral (required ${additionalMargin.toFixed(2)}, ` +
+                `available ${(accountValue - initialMargin).toFixed(2)})`
+            );
+        }
+    }
+}
+
+const exchanges = new Map<string, PaperExchange>();
+
+export function getPaperExchange(address: string, initialBalance: number): PaperExchange {
+    let exchange = exchanges.get(address);
+    if (!exchange) {
+        exchange = new PaperExchange(address, initialBalance);
+        exchanges.set(address, exchange);
+    }
+    return exchange;
+}
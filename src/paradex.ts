@@ -1,5 +1,36 @@
+import path from "path";
 import BigNumber from "bignumber.js";
-import type { ParadexAccount, ParadexConfig } from "./types";
+import type { CandleQuery, CandleResolution, HistoryQuery, OrderDetails, ParadexAccount, ParadexConfig } from "./types";
+import {
+    accountSchema,
+    authSchema,
+    balanceSchema,
+    cancelResultSchema,
+    candleSchema,
+    fundingDataSchema,
+    fillSchema,
+    fundingPaymentSchema,
+    marketSchema,
+    marketSummarySchema,
+    orderBookSchema,
+    orderSchema,
+    positionSchema,
+    resultsSchema,
+    transferSchema,
+    type AccountSummary,
+    type Candle,
+    type FundingData,
+    type FundingPayment,
+    type CancelResult,
+    type Market,
+    type MarketSummary,
+    type OrderBook,
+    type ParadexFill,
+    type ParadexOrder,
+    type Position,
+    type TokenBalance,
+    type Transfer,
+} from "./schemas";
 import {
     ec,
     shortString,
@@ -7,8 +38,26 @@ import {
     typedData as starkTypedData,
     Account,
 } from "starknet";
-import { StarknetChain } from "@daydreamsai/core";
-import { Logger, LogLevel } from "@daydreamsai/core";
+import { getPaperExchange, PaperExchangeError } from "./paper";
+import {
+    AuthError,
+    cancelOrderError,
+    OrderNotFoundError,
+    OrderRejectedError,
+    ParadexApiError,
+    RateLimitError,
+} from "./errors";
+import { paradexRequest, type ParadexRequest } from "./transport";
+import { TokenManager, tokenManagerFor } from "./auth";
+import { DailyBaselines, evaluateOrderRisk, RiskRejectedError, type RiskSnapshot, type RiskViolation } from "./risk";
+import { checkOrderRules, MarketRegistry } from "./markets";
+import {
+    evaluateMarket,
+    FUNDING_LOOKBACK_MS,
+    MIN_ANALYSIS_CANDLES,
+    type AnalysisResult,
+} from "./analysis";
+import { buildPortfolioReport, REPORT_LOOKBACK_MS, type PortfolioReport } from "./portfolio";
 
 interface AuthRequest extends Record<string, unknown> {
     method: string;
@@ -18,48 +67,23 @@ interface AuthRequest extends Record<string, unknown> {
     expiration: number;
 }
 
-interface MarketData {
-    symbol: string;
-    last_price: string;
-    mark_price: string;
-    index_price: string;
-    open_interest: string;
-    funding_rate: string;
-    volume_24h: string;
-    trades_24h: string;
-    price_change_24h: string;
+export interface OrderPreview {
+    notional: number;
+    estimatedFee: number;
+    initialMargin: number;
+    freeCollateral: number;
+    freeCollateralAfter: number;
 }
 
-interface RiskBand {
-    level: 'LOW' | 'MEDIUM' | 'HIGH';
-    maxPositionSize: number;
-    stopLossPercent: number;
-}
-
-interface PositionLimits {
-    maxLeverage: number;
-    maxPositionValue: number;
-    recommendedPositionSize: number;
-    riskBand: RiskBand;
-}
-
-interface AnalysisResult {
-    recommendation: 'BUY' | 'SELL' | 'HOLD';
-    confidence: number;
-    reasoning: string;
-    metrics: {
-        volatility: number;
-        momentum: number;
-        volume_trend: number;
-    };
-    positionLimits: PositionLimits;
-}
-
-interface BatchOrderResult {
+export interface BatchOrderResult {
     orderId: string;
     market: string;
     status: string;
+    data?: ParadexOrder;
+    // Fills the order had when it was placed
+    fills?: ParadexFill[];
     error?: string;
+    violations?: RiskViolation[];
 }
 
 const DOMAIN_TYPES = {
@@ -71,383 +95,734 @@ const DOMAIN_TYPES = {
 };
 const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
 
+export const CANDLE_RESOLUTIONS: readonly CandleResolution[] = [1, 3, 5, 15, 30, 60];
+const DEFAULT_CANDLE_COUNT = 100;
+
+const TRIGGER_ORDER_TYPES = ['STOP_MARKET', 'STOP_LIMIT', 'TAKE_PROFIT_MARKET', 'TAKE_PROFIT_LIMIT'];
+// Paradex signs sizes and prices as integers of 1e-8 units, whatever the market's increments
+const ORDER_SIGNING_DECIMALS = 8;
+// Fees and margin are estimated with the taker rate and the default initial margin fraction
+export const ESTIMATED_TAKER_FEE_RATE = 0.0003;
+const DEFAULT_INITIAL_MARGIN_FRACTION = 0.1;
+
+// Every REST call goes through the shared transport, a 401 triggers one re-authentication.
+// Accounts held by a TokenManager wait for a refresh in flight and re-authenticate through it.
+async function request<T = unknown>(config: ParadexConfig, account: ParadexAccount | undefined, options: ParadexRequest<T>) {
+    const tokens = account && tokenManagerFor(account);
+    if (account && tokens && options.auth !== false) {
+        await tokens.ready(account);
+    }
+    return paradexRequest<T>(config, account, options, account && (async () => {
+        if (tokens) {
+            await tokens.refresh(account);
+        } else {
+            account.jwtToken = await authenticate(config, account);
+        }
+    }));
+}
+
 export async function authenticate(config: ParadexConfig, account: ParadexAccount) {
     const { signature, timestamp, expiration } = signAuthRequest(
         config,
         account,
     );
-    const headers = {
-        Accept: "application/json",
-        "PARADEX-STARKNET-ACCOUNT": account.address,
-        "PARADEX-STARKNET-SIGNATURE": signature,
-        "PARADEX-TIMESTAMP": timestamp.toString(),
-        "PARADEX-SIGNATURE-EXPIRATION": expiration.toString(),
-        "Content-Type": "application/json"
-    };
 
     try {
-        const response = await fetch(`${config.apiBaseUrl}/auth`, {
-            method: "POST",
-            headers,
-            body: JSON.stringify({}),
+        const data = await paradexRequest(config, account, {
+            method: 'POST',
+            path: '/auth',
+            auth: false,
+            body: {},
+            schema: authSchema,
+            headers: {
+                "PARADEX-STARKNET-ACCOUNT": account.address,
+                "PARADEX-STARKNET-SIGNATURE": signature,
+                "PARADEX-TIMESTAMP": timestamp.toString(),
+                "PARADEX-SIGNATURE-EXPIRATION": expiration.toString(),
+            },
         });
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(`Authentication failed: ${response.status} - ${errorData.message || response.statusText}`);
-        }
-
-        const data = await response.json();
-        if (!data.jwt_token) {
-            throw new Error('No JWT token received from authentication');
-        }
         return data.jwt_token;
     } catch (e) {
         console.error('Authentication error:', e);
+        if (e instanceof ParadexApiError && !(e instanceof AuthError) && !(e instanceof RateLimitError)) {
+            throw new AuthError(e.code, `Authentication failed: ${e.status} - ${e.message}`, e.status);
+        }
         throw e;
     }
 }
 
-export async function getAccountInfo(config: ParadexConfig, account: ParadexAccount) {
-    if (!account.jwtToken) {
-        throw new Error('No JWT token available. Please authenticate first.');
+export async function getAccountInfo(config: ParadexConfig, account: ParadexAccount): Promise<AccountSummary> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return exchange.getAccountInfo();
     }
 
-    const headers = {
-        Accept: "application/json",
-        Authorization: `Bearer ${account.jwtToken}`,
-    };
-
-    try {
-        const response = await fetch(`${config.apiBaseUrl}/account`, {
-            method: "GET",
-            headers,
-        });
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(`Failed to get account info: ${response.status} - ${errorData.message || response.statusText}`);
-        }
-
-        const data = await response.json();
-        if (!data) {
-            throw new Error('No account data received');
-        }
-        return data;
-    } catch (e) {
-        console.error('Get account info error:', e);
-        throw e;
-    }
+    return request(config, account, { path: '/account', schema: accountSchema });
 }
 
+// Market metadata with the latest prices. /markets carries no prices on Paradex
+// (only the mock adds them), so they are merged in from /markets/summary.
 export async function listAvailableMarkets(
     config: ParadexConfig,
     market?: string,
-) {
-    const headers = {
-        Accept: "application/json",
-    };
+): Promise<Market[]> {
+    const { results } = await request(config, undefined, {
+        path: '/markets',
+        query: { market },
+        auth: false,
+        schema: resultsSchema(marketSchema),
+    });
+    if (results.every((m) => m.last_price || m.mark_price)) {
+        return results;
+    }
 
-    try {
-        const url = market
-            ? `${config.apiBaseUrl}/markets?market=${market}`
-            : `${config.apiBaseUrl}/markets`;
+    const summaries = await getMarketsSummary(config, market);
+    return results.map((m) => {
+        const summary = summaries.find((s) => s.symbol === m.symbol);
+        return summary ? {
+            ...m,
+            ...(summary.last_traded_price && { last_price: summary.last_traded_price }),
+            ...(summary.mark_price && { mark_price: summary.mark_price }),
+            ...(summary.underlying_price && { index_price: summary.underlying_price }),
+            ...(summary.funding_rate && { funding_rate: summary.funding_rate }),
+            ...(summary.open_interest && { open_interest: summary.open_interest }),
+            ...(summary.volume_24h && { volume_24h: summary.volume_24h }),
+        } : m;
+    });
+}
 
-        const response = await fetch(url, {
-            method: "GET",
-            headers,
+// One registry per API host, accounts on the same exchange share its market rules
+const marketRegistries = new Map<string, MarketRegistry>();
+
+export function marketRegistry(config: ParadexConfig): MarketRegistry {
+    let registry = marketRegistries.get(config.apiBaseUrl);
+    if (!registry) {
+        registry = new MarketRegistry(async () => {
+            const { results } = await request(config, undefined, {
+                path: '/markets',
+                auth: false,
+                schema: resultsSchema(marketSchema),
+            });
+            return results;
         });
-
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const data = await response.json();
-        if (!data.results) {
-            throw new Error('No results found in response');
-        }
-        return data.results;
-    } catch (e) {
-        console.error('Error fetching markets:', e);
-        throw e;
+        marketRegistries.set(config.apiBaseUrl, registry);
     }
+    return registry;
 }
 
-export async function getPositions(config: ParadexConfig, account: ParadexAccount) {
-    const headers = {
-        Accept: "application/json",
-        Authorization: `Bearer ${account.jwtToken}`,
-    };
+export async function getMarketsSummary(config: ParadexConfig, market = 'ALL'): Promise<MarketSummary[]> {
+    const { results } = await request(config, undefined, {
+        path: '/markets/summary',
+        query: { market },
+        auth: false,
+        schema: resultsSchema(marketSummarySchema),
+    });
+    return results;
+}
 
-    try {
-        const response = await fetch(`${config.apiBaseUrl}/positions`, {
-            method: "GET",
-            headers,
-        });
+// OHLCV candles, oldest first. The window defaults to the last 100 candles.
+export async function getCandles(config: ParadexConfig, market: string, query: CandleQuery = {}): Promise<Candle[]> {
+    const resolution = query.resolution ?? config.analysis?.resolution ?? 60;
+    const endAt = query.endAt ?? Date.now();
+    const startAt = query.startAt ?? endAt - DEFAULT_CANDLE_COUNT * resolution * 60 * 1000;
+    const { results } = await request(config, undefined, {
+        path: '/markets/klines',
+        query: {
+            symbol: market,
+            resolution: String(resolution),
+            start_at: String(startAt),
+            end_at: String(endAt),
+        },
+        auth: false,
+        schema: resultsSchema(candleSchema),
+    });
+    return results.sort((a, b) => a.time - b.time);
+}
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
+// Funding rate history of a perpetual, oldest first
+export async function getFundingHistory(config: ParadexConfig, market: string, query: HistoryQuery = {}): Promise<FundingData[]> {
+    const { results } = await request(config, undefined, {
+        path: '/funding/data',
+        query: historyParams({ ...query, market }),
+        auth: false,
+        schema: resultsSchema(fundingDataSchema),
+    });
+    return results.sort((a, b) => a.created_at - b.created_at);
+}
 
-        const data = await response.json();
-        return data.results;
-    } catch (e) {
-        console.error(e);
+// Public book, also used in paper mode so paper market orders see real depth
+export async function getOrderBook(config: ParadexConfig, market: string, depth = 20): Promise<OrderBook> {
+    return request(config, undefined, {
+        path: `/orderbook/${encodeURIComponent(market)}`,
+        query: { depth: String(depth) },
+        auth: false,
+        schema: orderBookSchema,
+    });
+}
+
+export async function getPositions(config: ParadexConfig, account: ParadexAccount): Promise<Position[]> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return exchange.getPositions();
     }
+
+    const { results } = await request(config, account, { path: '/positions', schema: resultsSchema(positionSchema) });
+    return results;
 }
 
-export async function getOpenOrders(config: ParadexConfig, account: ParadexAccount) {
-    const headers = {
-        Accept: "application/json",
-        Authorization: `Bearer ${account.jwtToken}`,
-    };
+export async function getOpenOrders(config: ParadexConfig, account: ParadexAccount): Promise<ParadexOrder[]> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return exchange.getOpenOrders();
+    }
 
-    try {
-        const response = await fetch(`${config.apiBaseUrl}/orders`, {
-            method: "GET",
-            headers,
-        });
+    const { results } = await request(config, account, { path: '/orders', schema: resultsSchema(orderSchema) });
+    return results;
+}
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-        }
+export async function openOrder(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    orderDetails: OrderDetails,
+) {
+    await checkOrderRisk(config, account, [orderDetails]);
+    return placeOrder(config, account, orderDetails);
+}
 
-        const data = await response.json();
-        return data.results;
-    } catch (e) {
-        console.error(e);
+// Fills of an order that traded on arrival, empty when they are not listed yet,
+// the feed reports them once they are
+async function placedOrderFills(config: ParadexConfig, account: ParadexAccount, order: ParadexOrder): Promise<ParadexFill[]> {
+    if (!(Number(order.size) - Number(order.remaining_size) > 0)) return [];
+    try {
+        const fills = await getFills(config, account, { market: order.market, startAt: order.created_at });
+        return fills.filter((fill) => fill.order_id === order.id);
+    } catch (error) {
+        console.error(`Could not fetch the fills of order ${order.id}:`, error);
+        return [];
     }
 }
 
-export async function openOrder(
+// Signs and submits an order that already passed the risk checks
+async function placeOrder(
     config: ParadexConfig,
     account: ParadexAccount,
-    orderDetails: Record<string, string>,
+    orderDetails: OrderDetails,
 ) {
     const price = Number(orderDetails.price);
     if (price <= 0) {
         throw new Error("Order failed: price must be a non-negative non-zero number.");
     }
 
+    if (TRIGGER_ORDER_TYPES.includes(orderDetails.type) && !(Number(orderDetails.triggerPrice) > 0)) {
+        throw new Error(`Order failed: ${orderDetails.type} orders require a positive trigger price.`);
+    }
+
+    const rules = await marketRegistry(config).require(orderDetails.market);
+    const violation = checkOrderRules(rules, orderDetails);
+    if (violation) {
+        throw new OrderRejectedError(violation.code, `Order failed: ${violation.message}`);
+    }
+
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        try {
+            const order = exchange.submitOrder(orderDetails);
+            return {
+                orderId: order.id,
+                status: order.status,
+                data: order,
+                fills: exchange.getFills().filter((fill) => fill.order_id === order.id)
+            };
+        } catch (error) {
+            if (error instanceof PaperExchangeError) {
+                throw new OrderRejectedError(error.code, error.message);
+            }
+            throw error;
+        }
+    }
+
     const timestamp = Date.now();
     const signature = signOrder(config, account, orderDetails, timestamp);
 
-    const inputBody = JSON.stringify({
-        ...orderDetails,
+    const { triggerPrice, reduceOnly, timeInForceType, clientId, ...restDetails } = orderDetails;
+    const body = {
+        ...restDetails,
+        ...(timeInForceType && { instruction: timeInForceType }),
+        ...(triggerPrice && { trigger_price: triggerPrice }),
+        ...(reduceOnly && { flags: ["REDUCE_ONLY"] }),
+        ...(clientId && { client_id: clientId }),
         signature: signature,
         signature_timestamp: timestamp,
-    });
-
-    const headers = {
-        Accept: "application/json",
-        Authorization: `Bearer ${account.jwtToken}`,
-        "Content-Type": "application/json",
     };
 
     try {
-        const response = await fetch(`${config.apiBaseUrl}/orders`, {
-            method: "POST",
-            headers,
-            body: inputBody,
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-            throw new Error(`Order failed: ${data.message || response.status}`);
-        }
-
+        const data = await request(config, account, { method: 'POST', path: '/orders', body, schema: orderSchema });
         console.log("Order response:", data);
 
         return {
-            orderId: data.orderId || data.id || 'filled-immediately',
-            status: data.status || 'success',
-            data: data
+            orderId: data.id,
+            status: data.status,
+            data: data,
+            fills: await placedOrderFills(config, account, data)
         };
     } catch (error) {
         console.error('Error in openOrder:', error);
+        if (error instanceof ParadexApiError && !(error instanceof AuthError) && !(error instanceof RateLimitError)) {
+            // The mock server relays paper exchange messages, which already carry the prefix
+            const message = error.message.startsWith('Order failed') ? error.message : `Order failed: ${error.message}`;
+            throw new OrderRejectedError(error.code, message, error.status);
+        }
         throw error;
     }
 }
 
+// Throws OrderNotFoundError, OrderClosedError or ParadexApiError when the order can't be cancelled
 export async function cancelOrder(
     config: ParadexConfig,
     account: ParadexAccount,
     orderId: string,
-) {
-    const headers = {
-        Accept: "application/json",
-        Authorization: `Bearer ${account.jwtToken}`,
-    };
+): Promise<true> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        try {
+            exchange.cancelOrder(orderId);
+        } catch (error) {
+            if (error instanceof PaperExchangeError) {
+                throw cancelOrderError(orderId, error.code, error.message, error.code === 'ORDER_ID_NOT_FOUND' ? 404 : 400);
+            }
+            throw error;
+        }
+        return true;
+    }
 
     try {
-        const response = await fetch(`${config.apiBaseUrl}/orders/${orderId}`, {
-            method: "DELETE",
-            headers,
-        });
+        await request(config, account, { method: 'DELETE', path: `/orders/${encodeURIComponent(orderId)}` });
+    } catch (error) {
+        if (error instanceof ParadexApiError && !(error instanceof AuthError) && !(error instanceof RateLimitError)) {
+            throw cancelOrderError(orderId, error.code, error.message, error.status);
+        }
+        throw error;
+    }
+    return true;
+}
 
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+// A missing order surfaces as OrderNotFoundError in both paper and live mode
+async function lookupOrder(orderId: string, lookup: () => ParadexOrder | Promise<ParadexOrder>): Promise<ParadexOrder> {
+    try {
+        return await lookup();
+    } catch (error) {
+        if ((error instanceof PaperExchangeError && error.code === 'ORDER_ID_NOT_FOUND') ||
+            (error instanceof ParadexApiError && error.status === 404)) {
+            throw new OrderNotFoundError(orderId, error.message);
         }
-        return true;
-    } catch (e) {
-        console.error(e);
+        throw error;
     }
 }
 
-function calculatePositionLimits(
-    marketData: MarketData,
-    accountValue: number,
-    volatility: number
-): PositionLimits {
-    const baseMaxLeverage = 20;
-    const volatilityAdjustedLeverage = Math.min(
-        baseMaxLeverage,
-        baseMaxLeverage * (1 - volatility * 5)
-    );
+export async function getOrderById(config: ParadexConfig, account: ParadexAccount, orderId: string): Promise<ParadexOrder> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return lookupOrder(orderId, () => exchange.getOrder(orderId));
+    }
 
-    const maxPositionValue = accountValue * volatilityAdjustedLeverage;
+    return lookupOrder(orderId, () =>
+        request(config, account, { path: `/orders/${encodeURIComponent(orderId)}`, schema: orderSchema }));
+}
 
-    let riskBand: RiskBand;
-    if (volatility < 0.02) {
-        riskBand = {
-            level: 'LOW',
-            maxPositionSize: accountValue * 0.5,
-            stopLossPercent: 2
-        };
-    } else if (volatility < 0.05) {
-        riskBand = {
-            level: 'MEDIUM',
-            maxPositionSize: accountValue * 0.3,
-            stopLossPercent: 5
-        };
-    } else {
-        riskBand = {
-            level: 'HIGH',
-            maxPositionSize: accountValue * 0.1,
-            stopLossPercent: 10
-        };
+export async function getOrderByClientId(config: ParadexConfig, account: ParadexAccount, clientId: string): Promise<ParadexOrder> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return lookupOrder(clientId, () => exchange.getOrderByClientId(clientId));
     }
 
-    const recommendedPositionSize = Math.min(
-        riskBand.maxPositionSize,
-        maxPositionValue * 0.25
-    );
+    return lookupOrder(clientId, () =>
+        request(config, account, { path: `/orders/by_client_id/${encodeURIComponent(clientId)}`, schema: orderSchema }));
+}
+
+function historyParams(query: HistoryQuery): Record<string, string | undefined> {
+    return {
+        market: query.market,
+        start_at: query.startAt?.toString(),
+        end_at: query.endAt?.toString(),
+        page_size: query.pageSize?.toString(),
+        cursor: query.cursor,
+    };
+}
+
+// Applies the history filters locally for the paper exchange, newest first like the API
+function filterHistory<T extends { market?: string; created_at: number }>(items: T[], query: HistoryQuery): T[] {
+    return items
+        .filter((item) =>
+            (!query.market || item.market === query.market) &&
+            (query.startAt === undefined || item.created_at >= query.startAt) &&
+            (query.endAt === undefined || item.created_at <= query.endAt))
+        .sort((a, b) => b.created_at - a.created_at)
+        .slice(0, query.pageSize ?? Infinity);
+}
+
+export async function getFills(config: ParadexConfig, account: ParadexAccount, query: HistoryQuery = {}): Promise<ParadexFill[]> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return filterHistory(exchange.getFills(), query);
+    }
+
+    const { results } = await request(config, account, {
+        path: '/fills',
+        query: historyParams(query),
+        schema: resultsSchema(fillSchema),
+    });
+    return results;
+}
+
+export async function getFundingPayments(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    query: HistoryQuery = {},
+): Promise<FundingPayment[]> {
+    // Paper positions don't accrue funding
+    if (isPaperTrading(config)) {
+        return [];
+    }
+
+    const { results } = await request(config, account, {
+        path: '/funding/payments',
+        query: historyParams(query),
+        schema: resultsSchema(fundingPaymentSchema),
+    });
+    return results;
+}
+
+export async function getBalances(config: ParadexConfig, account: ParadexAccount): Promise<TokenBalance[]> {
+    if (isPaperTrading(config)) {
+        const exchange = await getSyncedPaperExchange(config, account);
+        return exchange.getBalances();
+    }
+
+    const { results } = await request(config, account, { path: '/balance', schema: resultsSchema(balanceSchema) });
+    return results;
+}
+
+export async function getTransfers(config: ParadexConfig, account: ParadexAccount, query: HistoryQuery = {}): Promise<Transfer[]> {
+    if (isPaperTrading(config)) {
+        return [];
+    }
+
+    const { market: _market, ...params } = historyParams(query);
+    const { results } = await request(config, account, {
+        path: '/transfers',
+        query: params,
+        schema: resultsSchema(transferSchema),
+    });
+    return results;
+}
+
+export interface OpenOrderFilter {
+    market?: string;
+    side?: 'BUY' | 'SELL';
+    // Only orders created at least this long ago
+    minAgeMs?: number;
+    // Only orders priced at least this far from the mark price
+    minDistancePercent?: number;
+}
+
+export async function findOpenOrders(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    filter: OpenOrderFilter,
+): Promise<ParadexOrder[]> {
+    const [orders, markets] = await Promise.all([
+        getOpenOrders(config, account),
+        filter.minDistancePercent !== undefined ? listAvailableMarkets(config) : Promise.resolve([]),
+    ]);
+
+    const now = Date.now();
+    return orders.filter((order) => {
+        if (filter.market && order.market !== filter.market) return false;
+        if (filter.side && order.side !== filter.side) return false;
+        if (filter.minAgeMs !== undefined && now - Number(order.created_at) < filter.minAgeMs) return false;
+        if (filter.minDistancePercent !== undefined) {
+            const market = markets.find((m: Market) => m.symbol === order.market);
+            const markPrice = Number(market?.mark_price || market?.last_price);
+            const orderPrice = Number(order.price) || Number(order.trigger_price);
+            if (!markPrice || !orderPrice) return false;
+            if (Math.abs(orderPrice - markPrice) / markPrice * 100 < filter.minDistancePercent) return false;
+        }
+        return true;
+    });
+}
+
+// Cancels through the bulk endpoint, falling back to one request per order where it isn't available
+export async function cancelOrders(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    orders: Array<{ id: string; market: string }>,
+): Promise<BatchOrderResult[]> {
+    const cancelEach = () => Promise.all(orders.map(async (order): Promise<BatchOrderResult> => {
+        try {
+            await cancelOrder(config, account, order.id);
+            return { orderId: order.id, market: order.market, status: 'CANCELLED' };
+        } catch (error) {
+            return {
+                orderId: order.id,
+                market: order.market,
+                status: 'FAILED',
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+    }));
+
+    if (!orders.length) return [];
+    if (isPaperTrading(config)) return cancelEach();
 
+    let results: CancelResult[];
+    try {
+        ({ results } = await request(config, account, {
+            method: 'DELETE',
+            path: '/orders/batch',
+            body: { order_ids: orders.map((order) => order.id) },
+            schema: resultsSchema(cancelResultSchema),
+        }));
+    } catch (error) {
+        if (error instanceof ParadexApiError && (error.status === 404 || error.status === 405)) {
+            return cancelEach();
+        }
+        throw error;
+    }
+
+    return orders.map((order) => {
+        const result = results.find((r) => r.id === order.id);
+        const status = result?.status ?? 'UNKNOWN';
+        const cancelled = status === 'QUEUED_FOR_CANCELLATION' || status === 'CANCELLED';
+        return {
+            orderId: order.id,
+            market: order.market,
+            status: cancelled ? 'CANCELLED' : 'FAILED',
+            ...(!cancelled && { error: cancelOrderError(order.id, status, result?.error, 400).message })
+        };
+    });
+}
+
+// Notional, fees and margin the orders would use, reduce-only orders need no margin
+export async function previewOrders(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    orders: OrderDetails[],
+): Promise<OrderPreview> {
+    const [accountInfo, markets] = await Promise.all([
+        getAccountInfo(config, account),
+        listAvailableMarkets(config),
+    ]);
+
+    let notional = 0;
+    let initialMargin = 0;
+    for (const order of orders) {
+        const market = markets.find((m: Market) => m.symbol === order.market);
+        const price = Number(order.price) || Number(order.triggerPrice) ||
+            Number(market?.last_price || market?.mark_price || 0);
+        const orderNotional = Number(order.size) * price;
+        const marginFraction = Number(market?.delta1_cross_margin_params?.imf_base) || DEFAULT_INITIAL_MARGIN_FRACTION;
+
+        notional += orderNotional;
+        if (!order.reduceOnly) {
+            initialMargin += orderNotional * marginFraction;
+        }
+    }
+
+    const freeCollateral = Number(accountInfo.free_collateral);
     return {
-        maxLeverage: volatilityAdjustedLeverage,
-        maxPositionValue,
-        recommendedPositionSize,
-        riskBand
+        notional,
+        estimatedFee: notional * ESTIMATED_TAKER_FEE_RATE,
+        initialMargin,
+        freeCollateral,
+        freeCollateralAfter: freeCollateral - initialMargin,
+    };
+}
+
+// One baseline file per data directory, shared by every account using it
+const baselineFiles = new Map<string, DailyBaselines>();
+
+function dailyBaselines(config: ParadexConfig): DailyBaselines {
+    const filePath = path.join(config.dataDir ?? "data", "risk-baselines.json");
+    let baselines = baselineFiles.get(filePath);
+    if (!baselines) {
+        baselines = new DailyBaselines(filePath);
+        baselineFiles.set(filePath, baselines);
+    }
+    return baselines;
+}
+
+// Throws a RiskRejectedError listing every limit the orders would breach
+export async function checkOrderRisk(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    orders: OrderDetails[],
+) {
+    if (!config.risk) return;
+
+    const [accountInfo, positions, markets] = await Promise.all([
+        getAccountInfo(config, account),
+        getPositions(config, account),
+        listAvailableMarkets(config),
+    ]);
+
+    const accountValue = Number(accountInfo.account_value);
+    const snapshot: RiskSnapshot = {
+        accountAddress: account.address,
+        accountValue,
+        freeCollateral: Number(accountInfo.free_collateral),
+        positions: positions.filter((position) => Number(position.size) !== 0),
+        prices: new Map(
+            markets.map((market: Market) => [
+                market.symbol,
+                Number(market.last_price || market.mark_price),
+            ]),
+        ),
+        dayStartValue: await dailyBaselines(config).dayStart(account.address, accountValue),
     };
+
+    const result = evaluateOrderRisk(config.risk, snapshot, orders);
+    if (!result.approved) {
+        throw new RiskRejectedError(result.violations);
+    }
+}
+
+function isPaperTrading(config: ParadexConfig): boolean {
+    return config.paperTrading?.enabled === true;
+}
+
+// Paper orders are matched against the latest /markets snapshot on every call
+async function getSyncedPaperExchange(config: ParadexConfig, account: ParadexAccount) {
+    const exchange = getPaperExchange(
+        account.address,
+        config.paperTrading?.initialBalance ?? 10000,
+    );
+    exchange.updatePrices(await listAvailableMarkets(config));
+    return exchange;
 }
 
 export async function analyzeMarket(
     config: ParadexConfig,
     market: string,
-    account?: ParadexAccount
+    account?: ParadexAccount,
+    snapshot?: Market,
+    resolution: CandleResolution = config.analysis?.resolution ?? 60,
 ): Promise<AnalysisResult> {
     try {
-        const marketData = await listAvailableMarkets(config, market);
+        const candleCount = config.analysis?.candles ?? 200;
+        const now = Date.now();
+        // Callers holding live prices pass them in, otherwise fall back to REST
+        const [marketData, candles, funding] = await Promise.all([
+            snapshot ? [snapshot] : listAvailableMarkets(config, market),
+            getCandles(config, market, { resolution, startAt: now - candleCount * resolution * 60 * 1000, endAt: now }),
+            // Only perpetuals pay funding
+            getFundingHistory(config, market, { startAt: now - FUNDING_LOOKBACK_MS, endAt: now }).catch((error) => {
+                console.warn(`No funding history for ${market}:`, error instanceof Error ? error.message : error);
+                return [];
+            }),
+        ]);
         if (!marketData || !marketData[0]) {
             throw new Error(`No data available for market ${market}`);
         }
+        if (candles.length < MIN_ANALYSIS_CANDLES) {
+            throw new Error(`Not enough ${resolution}m candle history for ${market} (${candles.length} candles)`);
+        }
 
-        const data = marketData[0] as MarketData;
-
+        const data = marketData[0];
         let accountValue = 10000;
         if (account) {
             const accountInfo = await getAccountInfo(config, account);
             accountValue = parseFloat(accountInfo.account_value);
         }
 
-        const lastPrice = parseFloat(data.last_price);
-        const markPrice = parseFloat(data.mark_price);
-        const indexPrice = parseFloat(data.index_price);
-        const fundingRate = parseFloat(data.funding_rate);
-        const volume24h = parseFloat(data.volume_24h);
-        const priceChange24h = parseFloat(data.price_change_24h);
-
-        const volatility = Math.abs((markPrice - indexPrice) / indexPrice);
-        const momentum = priceChange24h / lastPrice;
-        const volumeTrend = volume24h / (lastPrice * parseFloat(data.open_interest));
-
-        let recommendation: 'BUY' | 'SELL' | 'HOLD';
-        let confidence = 0;
-        let reasoning = '';
-
-        if (momentum > 0.02 && fundingRate < 0.001) {
-            recommendation = 'BUY';
-            confidence = Math.min(0.8, Math.abs(momentum) * 5);
-            reasoning = 'Positive momentum with reasonable funding rate';
-        } else if (momentum < -0.02 && fundingRate > 0.001) {
-            recommendation = 'SELL';
-            confidence = Math.min(0.8, Math.abs(momentum) * 5);
-            reasoning = 'Negative momentum with high funding rate';
-        } else {
-            recommendation = 'HOLD';
-            confidence = 0.5;
-            reasoning = 'Market conditions are neutral';
-        }
-
-        if (volumeTrend > 0.1) {
-            confidence += 0.1;
-            reasoning += ' with strong volume support';
-        }
-
-        if (volatility > 0.02) {
-            confidence -= 0.2;
-            reasoning += ' (Note: High volatility detected)';
-        }
-
-        const positionLimits = calculatePositionLimits(
-            data,
+        return evaluateMarket(candles, funding, {
+            resolution,
             accountValue,
-            volatility
-        );
-
-        if (positionLimits.riskBand.level === 'HIGH') {
-            confidence *= 0.8;
-            reasoning += ' (High risk conditions - exercise caution)';
-        }
-
-        return {
-            recommendation,
-            confidence: Number(confidence.toFixed(2)),
-            reasoning,
-            metrics: {
-                volatility: Number(volatility.toFixed(4)),
-                momentum: Number(momentum.toFixed(4)),
-                volume_trend: Number(volumeTrend.toFixed(4))
-            },
-            positionLimits
-        };
+            lastPrice: Number(data.last_price || data.mark_price) || undefined,
+        });
     } catch (error) {
         console.error('Error in market analysis:', error);
         throw error;
     }
 }
 
+const HISTORY_PAGE_SIZE = 500;
+
+// Walks a newest-first history endpoint back to `startAt`, one page at a time,
+// moving `endAt` to the oldest row seen. Rows sharing that timestamp come back
+// on the next page and are dropped by id.
+async function collectHistory<T extends { id: string; created_at: number }>(
+    fetchPage: (query: HistoryQuery) => Promise<T[]>,
+    query: HistoryQuery & { startAt: number },
+): Promise<T[]> {
+    const rows = new Map<string, T>();
+    let endAt = query.endAt;
+    for (;;) {
+        const page = await fetchPage({ ...query, endAt, pageSize: HISTORY_PAGE_SIZE });
+        const added = page.filter((row) => row.created_at >= query.startAt && !rows.has(row.id));
+        for (const row of added) {
+            rows.set(row.id, row);
+        }
+        if (page.length < HISTORY_PAGE_SIZE || added.length === 0) break;
+        endAt = Math.min(...page.map((row) => row.created_at));
+    }
+    return [...rows.values()];
+}
+
+// Realized and unrealized PnL, funding and fees per market over the last day,
+// week and month
+export async function getPortfolioReport(
+    config: ParadexConfig,
+    account: ParadexAccount,
+    now = Date.now(),
+): Promise<PortfolioReport> {
+    const startAt = now - REPORT_LOOKBACK_MS;
+    const [accountInfo, positions, fills, fundingPayments] = await Promise.all([
+        getAccountInfo(config, account),
+        getPositions(config, account),
+        collectHistory((query) => getFills(config, account, query), { startAt, endAt: now }),
+        collectHistory((query) => getFundingPayments(config, account, query), { startAt, endAt: now }),
+    ]);
+
+    return buildPortfolioReport({
+        account: account.name ?? account.address,
+        now,
+        accountValue: Number(accountInfo.account_value),
+        positions,
+        fills,
+        fundingPayments,
+    });
+}
+
 export async function executeBatchOrders(
     config: ParadexConfig,
     account: ParadexAccount,
-    orders: Array<{
-        market: string;
-        side: string;
-        type: string;
-        size: string;
-        price?: string;
-        timeInForceType?: string;
-    }>
+    orders: OrderDetails[]
 ): Promise<BatchOrderResult[]> {
+    // The batch is checked as a whole, one breach rejects every order in it
+    try {
+        await checkOrderRisk(config, account, orders);
+    } catch (error) {
+        if (!(error instanceof RiskRejectedError)) throw error;
+        return orders.map((orderDetails) => ({
+            orderId: '',
+            market: orderDetails.market,
+            status: 'REJECTED',
+            error: error.message,
+            violations: error.violations.filter((violation) => violation.market === orderDetails.market)
+        }));
+    }
+
     const results = await Promise.all(
         orders.map(async (orderDetails): Promise<BatchOrderResult> => {
             try {
-                const result = await openOrder(config, account, orderDetails);
+                const result = await placeOrder(config, account, orderDetails);
                 return {
                     orderId: result.orderId,
                     market: orderDetails.market,
-                    status: result.status
+                    status: result.status,
+                    data: result.data,
+                    fills: result.fills
                 };
             } catch (error) {
                 return {
@@ -486,36 +861,53 @@ function signAuthRequest(
 } {
     const { timestamp, expiration } = generateTimestamps();
 
-    const request: AuthRequest = {
+    const request = buildAuthMessage(timestamp, expiration);
+    const typedData = buildAuthTypedData(request, config.starknet.chainId);
+    const signature = signatureFromTypedData(account, typedData);
+
+    return { signature, timestamp, expiration };
+}
+
+export function buildAuthMessage(timestamp: number, expiration: number): AuthRequest {
+    return {
         method: "POST",
         path: "/v1/auth",
         body: "",
         timestamp,
         expiration,
     };
-
-    const typedData = buildAuthTypedData(request, config.starknet.chainId);
-    const signature = signatureFromTypedData(account, typedData);
-
-    return { signature, timestamp, expiration };
 }
 
 function signOrder(
     config: ParadexConfig,
     account: ParadexAccount,
-    orderDetails: Record<string, string>,
+    orderDetails: OrderDetails,
     timestamp: number,
 ): string {
+    const message = buildOrderMessage(orderDetails, timestamp);
+    const typedData = buildOrderTypedData(message, config.starknet.chainId);
+    const signature = signatureFromTypedData(account, typedData);
+
+    return signature;
+}
+
+// The trigger price and flags of stop/take-profit orders are not part of the
+// signed payload, but *_MARKET orders must always sign a zero price.
+export function buildOrderMessage(
+    orderDetails: OrderDetails,
+    timestamp: number,
+) {
     const sideForSigning = orderDetails.side === "BUY" ? "1" : "2";
 
-    const priceForSigning = toQuantums(orderDetails.price ?? "0", 8);
-    const sizeForSigning = toQuantums(orderDetails.size, 8);
+    const signedPrice = orderDetails.type.endsWith("MARKET") ? "0" : orderDetails.price ?? "0";
+    const priceForSigning = toQuantums(signedPrice, ORDER_SIGNING_DECIMALS);
+    const sizeForSigning = toQuantums(orderDetails.size, ORDER_SIGNING_DECIMALS);
     const orderTypeForSigning = shortString.encodeShortString(
         orderDetails.type,
     );
     const marketForSigning = shortString.encodeShortString(orderDetails.market);
 
-    const message = {
+    return {
         timestamp: timestamp,
         market: marketForSigning,
         side: sideForSigning,
@@ -523,14 +915,9 @@ function signOrder(
         size: sizeForSigning,
         price: priceForSigning,
     };
-
-    const typedData = buildOrderTypedData(message, config.starknet.chainId);
-    const signature = signatureFromTypedData(account, typedData);
-
-    return signature;
 }
 
-function buildAuthTypedData(
+export function buildAuthTypedData(
     message: Record<string, unknown>,
     starknetChainId: string,
 ) {
@@ -552,7 +939,7 @@ function buildAuthTypedData(
     };
 }
 
-function buildOrderTypedData(
+export function buildOrderTypedData(
     message: Record<string, unknown>,
     starknetChainId: string,
 ) {
@@ -589,63 +976,159 @@ function signatureFromTypedData(account: ParadexAccount, typedData: TypedData) {
     return JSON.stringify([r.toString(), s.toString()]);
 }
 
+export function verifyTypedDataSignature(
+    address: string,
+    publicKey: string,
+    typedData: TypedData,
+    signature: string,
+): boolean {
+    try {
+        const msgHash = starkTypedData.getMessageHash(typedData, address);
+        const [r, s] = JSON.parse(signature) as [string, string];
+        const starkSignature = new ec.starkCurve.Signature(BigInt(r), BigInt(s));
+        return ec.starkCurve.verify(starkSignature, msgHash, publicKey);
+    } catch {
+        return false;
+    }
+}
+
+// Amounts are rounded onto the market increments before signing (see markets.ts),
+// so extra decimals here are a bug rather than something to truncate quietly
 export function toQuantums(
     amount: BigNumber | string,
     precision: number,
 ): string {
     const bnAmount = typeof amount === "string" ? BigNumber(amount) : amount;
+    if (!bnAmount.isFinite()) {
+        throw new Error(`Cannot sign ${amount.toString()}: not a number`);
+    }
+    if ((bnAmount.decimalPlaces() ?? 0) > precision) {
+        throw new Error(`Cannot sign ${bnAmount.toFixed()}: more than ${precision} decimals`);
+    }
     const bnQuantums = bnAmount.multipliedBy(new BigNumber(10).pow(precision));
-    return bnQuantums.integerValue(BigNumber.ROUND_FLOOR).toString();
+    return bnQuantums.toFixed(0);
 }
 
+// REST client bound to one account. Owns the config, the signing key and the JWT
+// lifecycle, every call goes through the shared transport.
 export class ParadexClient {
-    private chain: StarknetChain;
-    private logger: Logger;
-    private config: ParadexConfig;
-
-    constructor(config: ParadexConfig, account: ParadexAccount) {
+    readonly config: ParadexConfig;
+    readonly account: ParadexAccount;
+    readonly tokens: TokenManager;
+
+    // Clients for several accounts share one token manager
+    constructor(
+        config: ParadexConfig,
+        account: ParadexAccount,
+        tokens = new TokenManager((acc) => authenticate(config, acc)),
+    ) {
         this.config = config;
-        this.chain = new StarknetChain({
-            rpcUrl: config.apiBaseUrl,
-            address: account.address,
-            privateKey: account.privateKey
-        });
+        this.account = account;
+        this.tokens = tokens;
+    }
 
-        this.logger = new Logger({
-            level: LogLevel.INFO,
-            enableColors: true
-        });
+    get name(): string {
+        return this.account.name ?? this.account.address;
     }
 
-    async listAvailableMarkets(market?: string) {
-        try {
-            const result = await this.chain.read({
-                contractAddress: this.config.apiBaseUrl,
-                entrypoint: "markets",
-                calldata: market ? [market] : []
-            });
+    // Authenticates and keeps the JWT fresh until close()
+    async connect(): Promise<void> {
+        await this.tokens.register(this.account);
+    }
 
-            this.logger.info("ParadexClient", "Markets fetched", { market });
-            return result;
-        } catch (error) {
-            this.logger.error("ParadexClient", "Failed to fetch markets", { error });
-            throw error;
-        }
+    close() {
+        this.tokens.unregister(this.account);
     }
 
-    async openOrder(orderDetails: Record<string, string>) {
-        try {
-            const result = await this.chain.write({
-                contractAddress: this.config.apiBaseUrl,
-                entrypoint: "orders",
-                calldata: [orderDetails]
-            });
+    getAccountInfo() {
+        return getAccountInfo(this.config, this.account);
+    }
 
-            this.logger.info("ParadexClient", "Order placed", { orderDetails });
-            return result;
-        } catch (error) {
-            this.logger.error("ParadexClient", "Failed to place order", { error });
-            throw error;
-        }
+    getBalances() {
+        return getBalances(this.config, this.account);
+    }
+
+    getPositions() {
+        return getPositions(this.config, this.account);
     }
-}
\ No newline at end of file
+
+    listAvailableMarkets(market?: string) {
+        return listAvailableMarkets(this.config, market);
+    }
+
+    getMarketRules(market: string) {
+        return marketRegistry(this.config).require(market);
+    }
+
+    getOrderBook(market: string, depth?: number) {
+        return getOrderBook(this.config, market, depth);
+    }
+
+    analyzeMarket(market: string, snapshot?: Market, resolution?: CandleResolution) {
+        return analyzeMarket(this.config, market, this.account, snapshot, resolution);
+    }
+
+    getCandles(market: string, query?: CandleQuery) {
+        return getCandles(this.config, market, query);
+    }
+
+    getFundingHistory(market: string, query?: HistoryQuery) {
+        return getFundingHistory(this.config, market, query);
+    }
+
+    getOpenOrders() {
+        return getOpenOrders(this.config, this.account);
+    }
+
+    findOpenOrders(filter: OpenOrderFilter) {
+        return findOpenOrders(this.config, this.account, filter);
+    }
+
+    getOrder(orderId: string) {
+        return getOrderById(this.config, this.account, orderId);
+    }
+
+    getOrderByClientId(clientId: string) {
+        return getOrderByClientId(this.config, this.account, clientId);
+    }
+
+    previewOrders(orders: OrderDetails[]) {
+        return previewOrders(this.config, this.account, orders);
+    }
+
+    checkOrderRisk(orders: OrderDetails[]) {
+        return checkOrderRisk(this.config, this.account, orders);
+    }
+
+    openOrder(orderDetails: OrderDetails) {
+        return openOrder(this.config, this.account, orderDetails);
+    }
+
+    executeBatchOrders(orders: OrderDetails[]) {
+        return executeBatchOrders(this.config, this.account, orders);
+    }
+
+    cancelOrder(orderId: string) {
+        return cancelOrder(this.config, this.account, orderId);
+    }
+
+    cancelOrders(orders: Array<{ id: string; market: string }>) {
+        return cancelOrders(this.config, this.account, orders);
+    }
+
+    getFills(query?: HistoryQuery) {
+        return getFills(this.config, this.account, query);
+    }
+
+    getFundingPayments(query?: HistoryQuery) {
+        return getFundingPayments(this.config, this.account, query);
+    }
+
+    getTransfers(query?: HistoryQuery) {
+        return getTransfers(this.config, this.account, query);
+    }
+
+    getPortfolioReport(now?: number) {
+        return getPortfolioReport(this.config, this.account, now);
+    }
+}
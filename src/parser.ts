@@ -0,0 +1,306 @@
+import type { OrderType } from "./types";
+
+// Free-text fallback shared by the agent actions. Structured action fields always
+// take precedence, the parser only fills in what the model left out.
+
+export type TimeInForce = 'GTC' | 'IOC' | 'POST_ONLY';
+
+export interface OrderRequest {
+    market?: string;
+    side?: 'BUY' | 'SELL';
+    type?: OrderType;
+    // Size in the base currency
+    size?: string;
+    // Size in USD, converted to base units at the order or last price
+    notional?: string;
+    price?: string;
+    triggerPrice?: string;
+    timeInForce?: TimeInForce;
+    reduceOnly?: boolean;
+    clientId?: string;
+}
+
+export interface BracketRequest {
+    stopPercent?: number;
+    stopPrice?: number;
+    targetPercent?: number;
+    targetPrice?: number;
+    // Set when a stop or target was asked for without a distance
+    wantsStop?: boolean;
+    wantsTarget?: boolean;
+}
+
+interface MarketInfo {
+    symbol: string;
+    base_currency?: string;
+}
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i;
+const ORDER_ID_PATTERN = /(?:order|#|\bid)\s*(?:id\s*)?:?\s*([a-zA-Z0-9-]*\d[a-zA-Z0-9-]*)/i;
+// Option symbols carry a strike, e.g. ETH-USD-27DEC24-3000-C or PEPE-USD-27DEC24-0.00001-P
+const MARKET_TOKEN = "[a-z0-9]+(?:-[a-z0-9.]+)*";
+const ENTRY_PATTERN = new RegExp(
+    `\\b(buy|sell|long|short)\\s+(\\$\\s*)?(\\d+(?:\\.\\d+)?)\\s*(usdc?\\b|dollars?\\b|\\$)?\\s*(?:(?:worth\\s+)?of\\s+)?(${MARKET_TOKEN})`,
+    "i",
+);
+const KIND_PATTERN = /^\s+(?:at|@)\s+(?:(market|limit|stop|take[\s-]?profit|tp)\s*(?:price\s*)?)?(\d+(?:\.\d+)?)?(?:\s+limit\s+(\d+(?:\.\d+)?))?/i;
+
+export function parseConfirmationToken(text: string): string | undefined {
+    return text.match(/\bconfirm\s+([a-z0-9]+)/i)?.[1];
+}
+
+// "buy 0.1 ETH on hedge account" -> hedge, only names from `accounts` are recognised
+export function parseAccountName(text: string, accounts: readonly string[]): string | undefined {
+    const match = text.match(/\b(?:on|from|in|for|using|with)\s+(?:the\s+|my\s+)?([a-z0-9_-]+)\s+(?:sub-?)?account\b/i) ??
+        text.match(/\b(?:sub-?)?account\s*:?\s+([a-z0-9_-]+)/i);
+    const name = match?.[1].toLowerCase();
+    return accounts.find((account) => account.toLowerCase() === name);
+}
+
+export function parseOrderId(text: string): string | undefined {
+    return text.match(UUID_PATTERN)?.[0] ?? text.match(ORDER_ID_PATTERN)?.[1];
+}
+
+// Maps a symbol or base token onto a listed market, perpetuals are preferred for a bare token
+export function resolveMarket(input: string, markets?: MarketInfo[]): string | undefined {
+    const symbol = input.trim().toUpperCase();
+    if (!markets) {
+        return symbol.includes('-') ? symbol : `${symbol}-USD-PERP`;
+    }
+
+    const exact = markets.find((market) => market.symbol === symbol);
+    if (exact) return exact.symbol;
+
+    const base = symbol.split('-')[0];
+    const candidates = markets.filter((market) =>
+        market.base_currency === base || market.symbol.startsWith(`${base}-`));
+    return (candidates.find((market) => market.symbol === `${base}-USD-PERP`) ?? candidates[0])?.symbol;
+}
+
+// Finds the first listed market mentioned anywhere in the text, e.g. "what do you think of SOL"
+export function findMarketInText(text: string, markets: MarketInfo[]): string | undefined {
+    const tokens = text.toUpperCase().match(/[A-Z0-9]+(?:-[A-Z0-9.]+)*/g) ?? [];
+    const bases = new Set(markets.map((market) => market.base_currency ?? market.symbol.split('-')[0]));
+
+    for (const token of tokens) {
+        if (markets.some((market) => market.symbol === token)) return token;
+    }
+    for (const token of tokens) {
+        if (bases.has(token)) return resolveMarket(token, markets);
+    }
+    return undefined;
+}
+
+// "close 50% of ETH" -> 50
+export function parsePercent(text: string): number | undefined {
+    const match = text.match(/(\d+(?:\.\d+)?)\s*(?:%|percent\b)/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+// "reduce ETH to 0.5" -> 0.5
+export function parseTargetSize(text: string): number | undefined {
+    const match = text.match(/\bto\s+(\d+(?:\.\d+)?)(?![\d.]|\s*(?:%|percent\b))/i);
+    return match ? Number(match[1]) : undefined;
+}
+
+export function resolveOrderType(kind: string, limitPrice?: string): OrderType {
+    if (kind === 'market') return 'MARKET';
+    if (kind === 'limit') return 'LIMIT';
+    if (kind === 'stop') return limitPrice ? 'STOP_LIMIT' : 'STOP_MARKET';
+    return limitPrice ? 'TAKE_PROFIT_LIMIT' : 'TAKE_PROFIT_MARKET';
+}
+
+// Parses e.g. "buy 0.1 ETH at limit 3000 post only", "sell $500 of SOL" or
+// "buy 0.1 ETH at market with stop 5% and target 10%"
+export function parseOrderText(text: string): { order: OrderRequest; bracket?: BracketRequest } | undefined {
+    const entry = text.match(ENTRY_PATTERN);
+    if (!entry) return undefined;
+
+    const [, action, dollarSign, amount, usdUnit, market] = entry;
+    const order: OrderRequest = {
+        side: action.toLowerCase() === 'buy' || action.toLowerCase() === 'long' ? 'BUY' : 'SELL',
+        market,
+        ...(dollarSign || usdUnit ? { notional: amount } : { size: amount }),
+    };
+
+    let remainder = text.slice((entry.index ?? 0) + entry[0].length);
+    const kind = remainder.match(KIND_PATTERN);
+    if (kind && (kind[1] || kind[2])) {
+        const [, kindName, kindPrice, stopLimitPrice] = kind;
+        // A bare "at 3000" is a limit order
+        const normalizedKind = (kindName ?? 'limit').toLowerCase().replace(/[\s-]/g, '');
+        order.type = resolveOrderType(normalizedKind === 'takeprofit' ? 'tp' : normalizedKind, stopLimitPrice);
+        if (order.type === 'LIMIT') {
+            order.price = kindPrice;
+        } else if (order.type !== 'MARKET') {
+            order.triggerPrice = kindPrice;
+            order.price = stopLimitPrice;
+        }
+        remainder = remainder.slice(kind[0].length);
+    }
+
+    const timeInForce = remainder.match(/\b(ioc|gtc|post[\s-]?only)\b/i)?.[1];
+    if (timeInForce) {
+        order.timeInForce = timeInForce.toUpperCase().replace(/[\s-]/, '_') as TimeInForce;
+    }
+    if (/\breduce[\s-]?only\b/i.test(remainder)) {
+        order.reduceOnly = true;
+    }
+    const clientId = remainder.match(/\bclient[\s-]?id\s*:?\s*([a-zA-Z0-9_-]+)/i)?.[1];
+    if (clientId) {
+        order.clientId = clientId;
+    }
+
+    return { order, bracket: parseBracket(remainder) };
+}
+
+// Bracket legs are only read from the text after the entry order
+function parseBracket(remainder: string): BracketRequest | undefined {
+    const stopMatch = remainder.match(/\bstop(?:[\s-]?loss)?(?:\s+(?:at|of))?\s+(\d+\.?\d*)\s*(%)?/i);
+    const targetMatch = remainder.match(/\b(?:target|take[\s-]?profit|tp)(?:\s+(?:at|of))?\s+(\d+\.?\d*)\s*(%)?/i);
+    const wantsBracket = /\bbracket\b/i.test(remainder);
+    const wantsStop = !!stopMatch || wantsBracket || /\bstop(?:[\s-]?loss)?\b/i.test(remainder);
+    const wantsTarget = !!targetMatch || wantsBracket;
+    if (!wantsStop && !wantsTarget) return undefined;
+
+    const bracket: BracketRequest = { wantsStop, wantsTarget };
+    if (stopMatch) {
+        bracket[stopMatch[2] ? 'stopPercent' : 'stopPrice'] = Number(stopMatch[1]);
+    }
+    if (targetMatch) {
+        bracket[targetMatch[2] ? 'targetPercent' : 'targetPrice'] = Number(targetMatch[1]);
+    }
+    return bracket;
+}
+
+// Structured fields win over anything parsed from the text
+export function mergeOrderRequest(parsed: OrderRequest | undefined, fields: OrderRequest): OrderRequest {
+    const defined = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined && value !== ''),
+    ) as OrderRequest;
+    const merged = { ...parsed, ...defined };
+    // An explicit size in either unit replaces the parsed one
+    if (defined.size) delete merged.notional;
+    if (defined.notional && !defined.size) delete merged.size;
+    return merged;
+}
+
+export type AlertMetric = 'price' | 'mark' | 'funding' | 'open_interest';
+export type AlertCondition = 'above' | 'below' | 'crosses';
+
+export interface AlertRequest {
+    metric?: AlertMetric;
+    condition?: AlertCondition;
+    // "70k", "3000" or "0.05%", see parseThreshold
+    threshold?: string;
+    recurring?: boolean;
+}
+
+const ALERT_CONDITION_PATTERN = new RegExp(
+    "\\b((?:cross|break)(?:es|s|ing)?(?:\\s+(?:above|over|below|under))?|(?:goes|rises|moves|trades|is|gets)\\s+(?:above|over)|" +
+    "(?:goes|drops|falls|moves|trades|is|gets)\\s+(?:below|under)|above|over|exceeds|below|under|hits|reaches)" +
+    "\\s+(-?\\$?\\s*\\d+(?:\\.\\d+)?\\s*(?:k|m|%)?)(?![a-z])",
+    "i",
+);
+
+// "70k" -> 70000, "1.5m" -> 1500000, "-0.01%" -> -0.0001
+export function parseThreshold(value: string): number | undefined {
+    const match = value.trim().match(/^(-)?\$?\s*(\d+(?:\.\d+)?)\s*(k|m|%)?$/i);
+    if (!match) return undefined;
+    const multiplier = { k: 1000, m: 1000000, '%': 0.01 }[match[3]?.toLowerCase() as 'k' | 'm' | '%'] ?? 1;
+    return (match[1] ? -1 : 1) * Number(match[2]) * multiplier;
+}
+
+// Parses e.g. "tell me when BTC crosses 70k", "alert if ETH funding goes above 0.05%"
+// or "every time SOL drops below 120". The market is left to findMarketInText.
+export function parseAlertText(text: string): AlertRequest {
+    const request: AlertRequest = {};
+    if (/\bfunding\b/i.test(text)) request.metric = 'funding';
+    else if (/\bopen[\s-]?interest\b|\boi\b/i.test(text)) request.metric = 'open_interest';
+    else if (/\bmark(?:\s+price)?\b/i.test(text)) request.metric = 'mark';
+
+    // "3,000" -> "3000"
+    const condition = text.replace(/(\d),(?=\d{3}\b)/g, '$1').match(ALERT_CONDITION_PATTERN);
+    if (condition) {
+        const verb = condition[1].toLowerCase();
+        request.condition = /above|over|exceeds/.test(verb)
+            ? 'above'
+            : /below|under/.test(verb) ? 'below' : 'crosses';
+        request.threshold = condition[2].replace(/\s+/g, '');
+    }
+    if (/\b(?:every\s+time|each\s+time|whenever|recurring|repeat(?:edly|ing)?|keep\s+alerting)\b/i.test(text)) {
+        request.recurring = true;
+    }
+    return request;
+}
+
+// "at 16:00 UTC", "at 4pm" or "at 2026-10-20 16:00" -> the next such time in UTC,
+// "in 2 hours" or "in 30 min" -> from now. A bare "at 3000" is a price, not a time.
+export function parseTriggerTime(text: string, now = Date.now()): number | undefined {
+    const relative = text.match(/\bin\s+(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?)\b/i);
+    if (relative) {
+        const hours = /^h/i.test(relative[2]);
+        return now + Number(relative[1]) * (hours ? 3600000 : 60000);
+    }
+
+    const clock = text.match(
+        /\b(?:at|on)\s+(?:(\d{4}-\d{2}-\d{2})(?:\s+at)?\s+|T)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(utc|z)?\b/i,
+    );
+    if (!clock || !(clock[1] || clock[3] || clock[4] || clock[5])) return undefined;
+    const [, date, hourText, minutes, meridiem] = clock;
+    let hour = Number(hourText);
+    if (meridiem) hour = hour % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    if (hour > 23 || Number(minutes ?? 0) > 59) return undefined;
+
+    const day = new Date(date ? `${date}T00:00:00Z` : now);
+    day.setUTCHours(hour, Number(minutes ?? 0), 0, 0);
+    // Without a date the time is the next one to come
+    if (!date && day.getTime() <= now) day.setUTCDate(day.getUTCDate() + 1);
+    return day.getTime();
+}
+
+export interface ConditionRequest {
+    // Listed market the clause names, else the one before it or the order's
+    market?: string;
+    metric: AlertMetric;
+    condition: AlertCondition;
+    threshold: string;
+}
+
+export interface ConditionalRequest {
+    // The order or close instruction with the conditions taken out
+    orderText: string;
+    close: boolean;
+    conditions: ConditionRequest[];
+    at?: number;
+}
+
+// Splits e.g. "buy 1 SOL if BTC breaks 70k and funding is negative" or
+// "close my ETH long at 16:00 UTC" into the instruction and its conditions
+export function parseConditionalText(text: string, markets: MarketInfo[], now = Date.now()): ConditionalRequest {
+    const at = parseTriggerTime(text, now);
+    const withoutTime = at === undefined
+        ? text
+        : text.replace(/\b(?:at|on)\s+(?:\d{4}-\d{2}-\d{2}(?:\s+at)?\s+)?\d{1,2}(?::\d{2})?\s*(?:am|pm)?\s*(?:utc|z)?\b|\bin\s+\d+(?:\.\d+)?\s*(?:m|mins?|minutes?|h|hrs?|hours?)\b/i, ' ');
+    const [orderText, conditionText = ''] = withoutTime.split(/\b(?:if|when|once|as\s+soon\s+as)\b/i, 2);
+
+    const conditions: ConditionRequest[] = [];
+    let market = findMarketInText(orderText, markets);
+    for (const clause of conditionText.split(/\band\b/i)) {
+        market = findMarketInText(clause, markets) ?? market;
+        const sign = clause.match(/\b(negative|positive)\b/i)?.[1].toLowerCase();
+        const parsed = parseAlertText(clause);
+        if (sign) {
+            conditions.push({ market, metric: parsed.metric ?? 'funding', condition: sign === 'negative' ? 'below' : 'above', threshold: '0' });
+        } else if (parsed.condition && parsed.threshold) {
+            conditions.push({ market, metric: parsed.metric ?? 'price', condition: parsed.condition, threshold: parsed.threshold });
+        }
+    }
+
+    return {
+        orderText: orderText.trim(),
+        close: /^\s*(?:close|exit|flatten)\b/i.test(orderText),
+        conditions,
+        at,
+    };
+}
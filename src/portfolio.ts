@@ -0,0 +1,231 @@
+import type { FundingPayment, ParadexFill, Position } from "./schemas";
+import { signedPositionSize } from "./risk";
+
+// PnL, funding and fee breakdown of an account from its fills, funding payments
+// and positions. Pure like the analysis: callers fetch the history, this module
+// adds it up.
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const REPORT_PERIODS: Record<ReportPeriod, number> = {
+    day: DAY_MS,
+    week: 7 * DAY_MS,
+    month: 30 * DAY_MS,
+};
+// History the report needs, the longest period
+export const REPORT_LOOKBACK_MS = Math.max(...Object.values(REPORT_PERIODS));
+
+export interface MarketPnl {
+    market: string;
+    realizedPnl: number;
+    // Funding received, negative when paid
+    funding: number;
+    // Trading fees paid, negative for net rebates
+    fees: number;
+    // realizedPnl + funding - fees
+    netPnl: number;
+    volume: number;
+    trades: number;
+}
+
+export interface PeriodPnl extends Omit<MarketPnl, 'market'> {
+    period: ReportPeriod;
+    from: number;
+    // netPnl against the account value at the start of the period, estimated as
+    // the current value less the period's netPnl
+    return: number;
+    markets: MarketPnl[];
+}
+
+export interface OpenPositionPnl {
+    market: string;
+    size: number;
+    entryPrice: number;
+    unrealizedPnl: number;
+}
+
+export interface PortfolioReport {
+    account: string;
+    generatedAt: number;
+    accountValue: number;
+    unrealizedPnl: number;
+    positions: OpenPositionPnl[];
+    periods: PeriodPnl[];
+}
+
+export interface PortfolioInput {
+    account: string;
+    now: number;
+    accountValue: number;
+    positions: Position[];
+    // Everything since now - REPORT_LOOKBACK_MS, in any order
+    fills: ParadexFill[];
+    fundingPayments: FundingPayment[];
+}
+
+// Realized PnL of each fill: the one Paradex reports, or else worked out on an
+// average cost basis from the earlier fills in the history. A position opened
+// before the history starts has no known basis, closing it realizes nothing.
+export function realizedPnlByFill(fills: ParadexFill[]): Map<string, number> {
+    const result = new Map<string, number>();
+    const books = new Map<string, { size: number; entry: number }>();
+    for (const fill of [...fills].sort((a, b) => a.created_at - b.created_at)) {
+        const book = books.get(fill.market) ?? { size: 0, entry: 0 };
+        const size = Number(fill.size);
+        const price = Number(fill.price);
+        const signed = fill.side === 'BUY' ? size : -size;
+
+        let realized = 0;
+        if (book.size !== 0 && Math.sign(book.size) !== Math.sign(signed)) {
+            const closed = Math.min(Math.abs(book.size), size);
+            realized = (price - book.entry) * closed * Math.sign(book.size);
+        }
+        const next = book.size + signed;
+        if (next === 0) {
+            book.entry = 0;
+        } else if (Math.sign(next) !== Math.sign(book.size)) {
+            // Opened or flipped, the remainder is new at this price
+            book.entry = price;
+        } else if (Math.abs(next) > Math.abs(book.size)) {
+            book.entry = (book.entry * Math.abs(book.size) + price * size) / Math.abs(next);
+        }
+        book.size = next;
+        books.set(fill.market, book);
+
+        result.set(fill.id, fill.realized_pnl !== undefined && fill.realized_pnl !== ''
+            ? Number(fill.realized_pnl)
+            : realized);
+    }
+    return result;
+}
+
+function emptyMarket(market: string): MarketPnl {
+    return { market, realizedPnl: 0, funding: 0, fees: 0, netPnl: 0, volume: 0, trades: 0 };
+}
+
+export function buildPortfolioReport(input: PortfolioInput): PortfolioReport {
+    const { now, accountValue } = input;
+    const realized = realizedPnlByFill(input.fills);
+
+    const positions = input.positions
+        .filter((position) => Number(position.size) !== 0)
+        .map((position) => ({
+            market: position.market,
+            size: signedPositionSize(position),
+            entryPrice: Number(position.average_entry_price),
+            unrealizedPnl: Number(position.unrealized_pnl),
+        }));
+
+    const periods = (Object.entries(REPORT_PERIODS) as Array<[ReportPeriod, number]>).map(([period, length]): PeriodPnl => {
+        const from = now - length;
+        const markets = new Map<string, MarketPnl>();
+        const entry = (market: string) => {
+            let pnl = markets.get(market);
+            if (!pnl) {
+                pnl = emptyMarket(market);
+                markets.set(market, pnl);
+            }
+            return pnl;
+        };
+
+        for (const fill of input.fills) {
+            if (fill.created_at < from || fill.created_at > now) continue;
+            const pnl = entry(fill.market);
+            pnl.realizedPnl += realized.get(fill.id) ?? 0;
+            pnl.fees += Number(fill.fee);
+            pnl.volume += Number(fill.size) * Number(fill.price);
+            pnl.trades++;
+        }
+        for (const payment of input.fundingPayments) {
+            if (payment.created_at < from || payment.created_at > now) continue;
+            entry(payment.market).funding += Number(payment.payment);
+        }
+
+        const rows = [...markets.values()]
+            .map((pnl) => ({ ...pnl, netPnl: pnl.realizedPnl + pnl.funding - pnl.fees }))
+            .sort((a, b) => a.market.localeCompare(b.market));
+        const total = rows.reduce((sum, pnl) => ({
+            realizedPnl: sum.realizedPnl + pnl.realizedPnl,
+            funding: sum.funding + pnl.funding,
+            fees: sum.fees + pnl.fees,
+            netPnl: sum.netPnl + pnl.netPnl,
+            volume: sum.volume + pnl.volume,
+            trades: sum.trades + pnl.trades,
+        }), { realizedPnl: 0, funding: 0, fees: 0, netPnl: 0, volume: 0, trades: 0 });
+        const startValue = accountValue - total.netPnl;
+
+        return {
+            period,
+            from,
+            ...total,
+            return: startValue > 0 ? total.netPnl / startValue : 0,
+            markets: rows,
+        };
+    });
+
+    return {
+        account: input.account,
+        generatedAt: now,
+        accountValue,
+        unrealizedPnl: positions.reduce((total, position) => total + position.unrealizedPnl, 0),
+        positions,
+        periods,
+    };
+}
+
+const usd = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+export function formatPortfolioReport(report: PortfolioReport): string {
+    const lines = [
+        `Portfolio report for ${report.account} at ${new Date(report.generatedAt).toISOString()}`,
+        `Account value: ${report.accountValue.toFixed(2)} USD, unrealized PnL ${usd(report.unrealizedPnl)} USD`,
+    ];
+    if (report.positions.length) {
+        lines.push('', 'Open positions:');
+        for (const position of report.positions) {
+            lines.push(`• ${position.market}: ${position.size} @ ${position.entryPrice}, unrealized ${usd(position.unrealizedPnl)}`);
+        }
+    }
+    for (const period of report.periods) {
+        lines.push(
+            '',
+            `Last ${period.period}: net ${usd(period.netPnl)} USD (${usd(period.return * 100)}%) = ` +
+                `realized ${usd(period.realizedPnl)} + funding ${usd(period.funding)} - fees ${period.fees.toFixed(2)}, ` +
+                `${period.trades} fill(s), volume ${period.volume.toFixed(2)}`,
+        );
+        for (const pnl of period.markets) {
+            lines.push(`• ${pnl.market}: net ${usd(pnl.netPnl)} (realized ${usd(pnl.realizedPnl)}, ` +
+                `funding ${usd(pnl.funding)}, fees ${pnl.fees.toFixed(2)}), ${pnl.trades} fill(s)`);
+        }
+    }
+    return lines.join('\n');
+}
+
+const CSV_COLUMNS = ['account', 'period', 'from', 'market', 'realized_pnl', 'funding', 'fees', 'net_pnl', 'volume', 'trades', 'unrealized_pnl', 'return'];
+
+// One row per period and market plus a TOTAL row per period. Unrealized PnL is
+// the current one and repeats across periods.
+export function portfolioCsv(report: PortfolioReport): string {
+    const unrealized = (market?: string) => market
+        ? report.positions.filter((p) => p.market === market).reduce((total, p) => total + p.unrealizedPnl, 0)
+        : report.unrealizedPnl;
+    const rows = report.periods.flatMap((period) => [
+        ...period.markets.map((pnl) => ({ ...pnl, return: undefined })),
+        { ...period, market: 'TOTAL' },
+    ].map((pnl) => [
+        report.account,
+        period.period,
+        new Date(period.from).toISOString(),
+        pnl.market,
+        pnl.realizedPnl.toFixed(6),
+        pnl.funding.toFixed(6),
+        pnl.fees.toFixed(6),
+        pnl.netPnl.toFixed(6),
+        pnl.volume.toFixed(6),
+        String(pnl.trades),
+        unrealized(pnl.market === 'TOTAL' ? undefined : pnl.market).toFixed(6),
+        pnl.return === undefined ? '' : pnl.return.toFixed(6),
+    ]));
+    return [CSV_COLUMNS, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,94 @@
+import BigNumber from "bignumber.js";
+import type { OrderDetails } from "./types";
+import { signedPositionSize } from "./risk";
+import { roundToStep } from "./markets";
+
+// Works out the orders that close, reduce or flip an existing position.
+
+export type PositionAdjustment =
+    | { kind: 'close'; percent: number }
+    | { kind: 'reduce'; targetSize: number }
+    | { kind: 'flip' };
+
+export interface PositionLike {
+    market: string;
+    size: string;
+    side?: string;
+    average_entry_price?: string;
+}
+
+export interface PositionOrderPlan {
+    order: OrderDetails;
+    // Part of the existing position the order closes, in base units
+    closedSize: number;
+    entryPrice: number;
+    // 1 for a long position, -1 for a short one
+    direction: 1 | -1;
+}
+
+export function planPositionOrder(
+    position: PositionLike,
+    sizeIncrement: string,
+    adjustment: PositionAdjustment,
+): PositionOrderPlan | { error: string } {
+    const signedSize = signedPositionSize(position);
+    if (!signedSize) {
+        return { error: `There is no open ${position.market} position` };
+    }
+
+    const direction = signedSize > 0 ? 1 : -1;
+    const currentSize = Math.abs(signedSize);
+    // Decimal arithmetic, so a size already on the increment never drops a step
+    const current = new BigNumber(currentSize);
+    const exitSide = direction === 1 ? 'SELL' : 'BUY';
+    const entryPrice = Number(position.average_entry_price ?? 0);
+
+    let size: string;
+    switch (adjustment.kind) {
+        case 'close':
+            if (!(adjustment.percent > 0 && adjustment.percent <= 100)) {
+                return { error: `Close percentage must be between 0 and 100, got ${adjustment.percent}` };
+            }
+            size = roundToStep(current.multipliedBy(adjustment.percent).dividedBy(100), sizeIncrement, 'down');
+            break;
+        case 'reduce':
+            if (!(adjustment.targetSize >= 0 && adjustment.targetSize < currentSize)) {
+                return {
+                    error: `Target size ${adjustment.targetSize} must be below the current ${position.market} position of ${currentSize}`
+                };
+            }
+            size = roundToStep(current.minus(adjustment.targetSize), sizeIncrement, 'down');
+            break;
+        case 'flip':
+            // Crosses zero, so this one cannot be reduce-only
+            size = roundToStep(current.multipliedBy(2), sizeIncrement, 'down');
+            return {
+                order: { market: position.market, side: exitSide, type: 'MARKET', size, timeInForceType: 'IOC' },
+                closedSize: currentSize,
+                entryPrice,
+                direction,
+            };
+    }
+
+    if (!(Number(size) > 0)) {
+        return { error: `The ${position.market} adjustment is smaller than the order size increment of ${sizeIncrement}` };
+    }
+
+    return {
+        order: {
+            market: position.market,
+            side: exitSide,
+            type: 'MARKET',
+            size,
+            timeInForceType: 'IOC',
+            reduceOnly: true,
+        },
+        closedSize: Number(size),
+        entryPrice,
+        direction,
+    };
+}
+
+export function realizedPnl(plan: PositionOrderPlan, exitPrice: number): number {
+    return (exitPrice - plan.entryPrice) * plan.closedSize * plan.direction;
+}
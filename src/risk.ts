@@ -0,0 +1,222 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { OrderDetails, RiskLimits } from "./types";
+
+// Pre-trade risk checks run before any order leaves the agent. Evaluation is
+// pure: callers gather the account, positions, prices and the day's starting
+// value, this module decides.
+
+export type RiskViolationCode =
+    | 'MARKET_NOT_ALLOWED'
+    | 'MAX_ORDER_NOTIONAL'
+    | 'MAX_POSITION_NOTIONAL'
+    | 'MAX_LEVERAGE'
+    | 'MAX_DAILY_LOSS'
+    | 'NO_PRICE';
+
+export interface RiskViolation {
+    code: RiskViolationCode;
+    market: string;
+    message: string;
+    limit?: number;
+    value?: number;
+}
+
+export interface RiskSnapshot {
+    accountAddress: string;
+    accountValue: number;
+    freeCollateral: number;
+    positions: Array<{ market: string; size: string; side?: string }>;
+    prices: Map<string, number>;
+    // Account value at the start of the UTC day, the baseline for the daily loss limit
+    dayStartValue: number;
+}
+
+export interface RiskCheckResult {
+    approved: boolean;
+    violations: RiskViolation[];
+}
+
+export class RiskRejectedError extends Error {
+    readonly violations: RiskViolation[];
+
+    constructor(violations: RiskViolation[]) {
+        super(`Order rejected by risk checks: ${violations.map((v) => v.message).join('; ')}`);
+        this.name = 'RiskRejectedError';
+        this.violations = violations;
+    }
+}
+
+// Account value at the first check of each UTC day, per account address. Kept in
+// <dataDir>/risk-baselines.json so a restart doesn't clear the day's losses.
+export class DailyBaselines {
+    private readonly filePath: string;
+    private values = new Map<string, { day: string; value: number }>();
+    private loading?: Promise<void>;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    // The day's baseline for the account, the current value on its first check of the day
+    async dayStart(accountAddress: string, accountValue: number, now = Date.now()): Promise<number> {
+        await this.load();
+        const today = new Date(now).toISOString().slice(0, 10);
+        const saved = this.values.get(accountAddress);
+        if (saved?.day === today) {
+            return saved.value;
+        }
+        this.values.set(accountAddress, { day: today, value: accountValue });
+        await this.save();
+        return accountValue;
+    }
+
+    private load(): Promise<void> {
+        this.loading ??= (async () => {
+            const content = await readFile(this.filePath, "utf8").catch(() => "");
+            try {
+                const saved: Record<string, { day: string; value: number }> = content ? JSON.parse(content) : {};
+                for (const [address, baseline] of Object.entries(saved)) {
+                    this.values.set(address, baseline);
+                }
+            } catch (error) {
+                console.error('Ignoring corrupt risk baselines:', error);
+            }
+        })();
+        return this.loading;
+    }
+
+    private save(): Promise<void> {
+        const content = JSON.stringify(Object.fromEntries(this.values), null, 2);
+        this.writes = this.writes.then(async () => {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            const temporary = `${this.filePath}.tmp`;
+            await writeFile(temporary, content);
+            await rename(temporary, this.filePath);
+        }).catch((error) => console.error('Failed to save risk baselines:', error));
+        return this.writes;
+    }
+}
+
+export function signedPositionSize(position: { size: string; side?: string }): number {
+    const size = Number(position.size);
+    return position.side === 'SHORT' && size > 0 ? -size : size;
+}
+
+function orderPrice(order: OrderDetails, prices: Map<string, number>): number | undefined {
+    const explicit = Number(order.price) || Number(order.triggerPrice);
+    return explicit > 0 ? explicit : prices.get(order.market);
+}
+
+export function evaluateOrderRisk(
+    limits: RiskLimits,
+    snapshot: RiskSnapshot,
+    orders: OrderDetails[],
+): RiskCheckResult {
+    const violations: RiskViolation[] = [];
+    const positions = new Map<string, number>();
+    for (const position of snapshot.positions) {
+        positions.set(position.market, signedPositionSize(position));
+    }
+
+    const notionalOf = (market: string, size: number) =>
+        Math.abs(size) * (snapshot.prices.get(market) ?? 0);
+    let totalNotional = [...positions.entries()]
+        .reduce((total, [market, size]) => total + notionalOf(market, size), 0);
+
+    const dailyPnl = snapshot.accountValue - snapshot.dayStartValue;
+
+    // Orders are applied in sequence so a batch is judged on its combined exposure
+    for (const order of orders) {
+        const signedSize = order.side === 'SELL' ? -Number(order.size) : Number(order.size);
+        const currentSize = positions.get(order.market) ?? 0;
+        const projectedSize = currentSize + signedSize;
+
+        // Orders that only shrink a position are always allowed through. Reduce-only
+        // orders never add exposure, the exchange clips or rejects them.
+        const isReducing = Math.abs(projectedSize) <= Math.abs(currentSize);
+        if (order.reduceOnly || isReducing) {
+            if (isReducing) {
+                positions.set(order.market, projectedSize);
+            } else if (Math.sign(signedSize) !== Math.sign(currentSize)) {
+                positions.set(order.market, 0);
+            }
+            continue;
+        }
+
+        if (limits.allowedMarkets.length && !limits.allowedMarkets.includes(order.market)) {
+            violations.push({
+                code: 'MARKET_NOT_ALLOWED',
+                market: order.market,
+                message: `${order.market} is not in the allowed markets (${limits.allowedMarkets.join(', ')})`,
+            });
+            continue;
+        }
+
+        const price = orderPrice(order, snapshot.prices);
+        if (!price) {
+            violations.push({
+                code: 'NO_PRICE',
+                market: order.market,
+                message: `No price available for ${order.market} to size the order`,
+            });
+            continue;
+        }
+
+        const orderNotional = Number(order.size) * price;
+        if (orderNotional > limits.maxOrderNotional) {
+            violations.push({
+                code: 'MAX_ORDER_NOTIONAL',
+                market: order.market,
+                message: `Order notional ${orderNotional.toFixed(2)} exceeds the ${limits.maxOrderNotional} USD limit per order`,
+                limit: limits.maxOrderNotional,
+                value: orderNotional,
+            });
+        }
+
+        const projectedPositionNotional = Math.abs(projectedSize) * price;
+        if (projectedPositionNotional > limits.maxPositionNotional) {
+            violations.push({
+                code: 'MAX_POSITION_NOTIONAL',
+                market: order.market,
+                message: `${order.market} position would reach ${projectedPositionNotional.toFixed(2)} USD, above the ${limits.maxPositionNotional} USD limit`,
+                limit: limits.maxPositionNotional,
+                value: projectedPositionNotional,
+            });
+        }
+
+        const addedNotional = (Math.abs(projectedSize) - Math.abs(currentSize)) * price;
+        const projectedLeverage = snapshot.accountValue > 0
+            ? (totalNotional + addedNotional) / snapshot.accountValue
+            : Infinity;
+        const collateralLeverage = snapshot.freeCollateral > 0
+            ? addedNotional / snapshot.freeCollateral
+            : Infinity;
+        if (projectedLeverage > limits.maxLeverage || collateralLeverage > limits.maxLeverage) {
+            const leverage = Math.max(projectedLeverage, collateralLeverage);
+            violations.push({
+                code: 'MAX_LEVERAGE',
+                market: order.market,
+                message: `Order would take leverage to ${leverage.toFixed(2)}x (free collateral ${snapshot.freeCollateral.toFixed(2)}), above the ${limits.maxLeverage}x limit`,
+                limit: limits.maxLeverage,
+                value: leverage,
+            });
+        }
+
+        if (-dailyPnl >= limits.maxDailyLoss) {
+            violations.push({
+                code: 'MAX_DAILY_LOSS',
+                market: order.market,
+                message: `Daily loss of ${(-dailyPnl).toFixed(2)} USD has reached the ${limits.maxDailyLoss} USD limit, only reducing orders are allowed`,
+                limit: limits.maxDailyLoss,
+                value: -dailyPnl,
+            });
+        }
+
+        positions.set(order.market, projectedSize);
+        totalNotional += addedNotional;
+    }
+
+    return { approved: violations.length === 0, violations };
+}
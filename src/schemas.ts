@@ -0,0 +1,242 @@
+import { z } from "zod";
+
+// Response models for the Paradex REST API, validated by the transport. Decimals
+// arrive as strings and timestamps as unix ms. Objects pass unknown fields
+// through, so fields Paradex adds later don't fail validation.
+
+const decimal = z.string();
+const timestamp = z.number();
+
+export const accountSchema = z.object({
+    account: z.string(),
+    account_value: decimal,
+    free_collateral: decimal,
+    total_collateral: decimal,
+    initial_margin_requirement: decimal,
+    maintenance_margin_requirement: decimal,
+    margin_cushion: decimal.optional(),
+    settlement_asset: z.string().optional(),
+    status: z.string(),
+    updated_at: timestamp.optional(),
+}).passthrough();
+
+export const balanceSchema = z.object({
+    token: z.string(),
+    size: decimal,
+    last_updated_at: timestamp,
+}).passthrough();
+
+export const marketSummarySchema = z.object({
+    symbol: z.string(),
+    mark_price: decimal.optional(),
+    last_traded_price: decimal.optional(),
+    underlying_price: decimal.optional(),
+    bid: decimal.optional(),
+    ask: decimal.optional(),
+    volume_24h: decimal.optional(),
+    open_interest: decimal.optional(),
+    funding_rate: decimal.optional(),
+    price_change_rate_24h: decimal.optional(),
+    created_at: timestamp.optional(),
+}).passthrough();
+
+// Fee rates are fractions of the notional, negative for a rebate
+const feeRate = z.object({ fee: decimal }).passthrough();
+
+// /markets only carries the static metadata, the price fields are merged in from
+// the markets summary (or the live feed)
+export const marketSchema = z.object({
+    symbol: z.string(),
+    base_currency: z.string(),
+    quote_currency: z.string(),
+    settlement_currency: z.string(),
+    asset_kind: z.string(),
+    order_size_increment: decimal,
+    price_tick_size: decimal,
+    min_notional: decimal,
+    max_order_size: decimal,
+    position_limit: decimal.optional(),
+    expiry_at: timestamp.optional(),
+    delta1_cross_margin_params: z.object({
+        imf_base: decimal,
+        imf_factor: decimal.optional(),
+        imf_shift: decimal.optional(),
+        mmf_factor: decimal.optional(),
+    }).passthrough().optional(),
+    fee_config: z.object({
+        api_fee: z.object({
+            maker_fee: feeRate.optional(),
+            taker_fee: feeRate.optional(),
+        }).passthrough().optional(),
+    }).passthrough().optional(),
+    last_price: decimal.optional(),
+    mark_price: decimal.optional(),
+    index_price: decimal.optional(),
+    open_interest: decimal.optional(),
+    funding_rate: decimal.optional(),
+    volume_24h: decimal.optional(),
+    trades_24h: decimal.optional(),
+    price_change_24h: decimal.optional(),
+}).passthrough();
+
+// Levels are [price, size] pairs, bids best (highest) first and asks best (lowest) first
+const bookLevel = z.tuple([decimal, decimal]);
+
+export const orderBookSchema = z.object({
+    market: z.string(),
+    bids: z.array(bookLevel),
+    asks: z.array(bookLevel),
+    seq_no: z.number().optional(),
+    last_updated_at: timestamp,
+}).passthrough();
+
+// /markets/klines rows are [start, open, high, low, close, volume] in numbers
+export const candleSchema = z.tuple([timestamp, z.number(), z.number(), z.number(), z.number(), z.number()])
+    .transform(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }));
+
+export const fundingDataSchema = z.object({
+    market: z.string(),
+    // Rate of one 8h funding period
+    funding_rate: decimal,
+    funding_index: decimal.optional(),
+    funding_premium: decimal.optional(),
+    created_at: timestamp,
+}).passthrough();
+
+export const positionSchema = z.object({
+    id: z.string(),
+    market: z.string(),
+    side: z.enum(['LONG', 'SHORT']),
+    // Signed, shorts are negative on Paradex and on paper
+    size: decimal,
+    average_entry_price: decimal,
+    unrealized_pnl: decimal,
+    realized_pnl: decimal.optional(),
+    liquidation_price: decimal.optional(),
+    leverage: decimal.optional(),
+    status: z.string(),
+    last_updated_at: timestamp,
+}).passthrough();
+
+export const orderSchema = z.object({
+    id: z.string(),
+    account: z.string(),
+    market: z.string(),
+    side: z.enum(['BUY', 'SELL']),
+    type: z.string(),
+    size: decimal,
+    remaining_size: decimal,
+    price: decimal,
+    trigger_price: decimal.optional(),
+    avg_fill_price: decimal.optional(),
+    instruction: z.string(),
+    flags: z.array(z.string()).optional(),
+    client_id: z.string().optional(),
+    status: z.enum(['NEW', 'UNTRIGGERED', 'OPEN', 'CLOSED']),
+    cancel_reason: z.string().optional(),
+    created_at: timestamp,
+    last_updated_at: timestamp,
+}).passthrough();
+
+export const fillSchema = z.object({
+    id: z.string(),
+    order_id: z.string(),
+    client_id: z.string().optional(),
+    market: z.string(),
+    side: z.enum(['BUY', 'SELL']),
+    size: decimal,
+    price: decimal,
+    fee: decimal,
+    fee_currency: z.string().optional(),
+    liquidity: z.enum(['TAKER', 'MAKER']),
+    realized_pnl: decimal.optional(),
+    created_at: timestamp,
+}).passthrough();
+
+// Public trades from the trades.<market> WebSocket channel
+export const tradeSchema = z.object({
+    id: z.string(),
+    market: z.string(),
+    side: z.enum(['BUY', 'SELL']),
+    size: decimal,
+    price: decimal,
+    trade_type: z.string().optional(),
+    created_at: timestamp,
+}).passthrough();
+
+// Order book snapshot or delta from the order_book.<market> WebSocket channel
+const orderBookChange = z.object({
+    side: z.enum(['BUY', 'SELL']),
+    price: decimal,
+    size: decimal,
+}).passthrough();
+
+export const orderBookUpdateSchema = z.object({
+    market: z.string(),
+    // 's' for a snapshot, 'd' for a delta on the previous book
+    update_type: z.string().optional(),
+    seq_no: z.number().optional(),
+    last_updated_at: timestamp.optional(),
+    inserts: z.array(orderBookChange).optional(),
+    updates: z.array(orderBookChange).optional(),
+    deletes: z.array(orderBookChange).optional(),
+}).passthrough();
+
+export const fundingPaymentSchema = z.object({
+    id: z.string(),
+    market: z.string(),
+    // Signed USDC amount, negative when the account paid
+    payment: decimal,
+    index: decimal,
+    fill_id: z.string().optional(),
+    created_at: timestamp,
+}).passthrough();
+
+export const transferSchema = z.object({
+    id: z.string(),
+    account: z.string(),
+    kind: z.string(),
+    status: z.string(),
+    amount: decimal,
+    token: z.string(),
+    txn_hash: z.string().optional(),
+    created_at: timestamp,
+    last_updated_at: timestamp,
+}).passthrough();
+
+export const authSchema = z.object({
+    jwt_token: z.string().min(1),
+}).passthrough();
+
+// One entry per order of a DELETE /orders/batch
+export const cancelResultSchema = z.object({
+    id: z.string(),
+    market: z.string().optional(),
+    status: z.string(),
+    error: z.string().optional(),
+}).passthrough();
+
+// List endpoints wrap their items in `results`, paged ones add cursors
+export function resultsSchema<T extends z.ZodTypeAny>(item: T) {
+    return z.object({
+        results: z.array(item),
+        next: z.string().nullish(),
+        prev: z.string().nullish(),
+    });
+}
+
+export type AccountSummary = z.infer<typeof accountSchema>;
+export type TokenBalance = z.infer<typeof balanceSchema>;
+export type MarketSummary = z.infer<typeof marketSummarySchema>;
+export type ParadexTrade = z.infer<typeof tradeSchema>;
+export type OrderBookUpdate = z.infer<typeof orderBookUpdateSchema>;
+export type Market = z.infer<typeof marketSchema>;
+export type OrderBook = z.infer<typeof orderBookSchema>;
+export type Candle = z.infer<typeof candleSchema>;
+export type FundingData = z.infer<typeof fundingDataSchema>;
+export type Position = z.infer<typeof positionSchema>;
+export type ParadexOrder = z.infer<typeof orderSchema>;
+export type ParadexFill = z.infer<typeof fillSchema>;
+export type FundingPayment = z.infer<typeof fundingPaymentSchema>;
+export type Transfer = z.infer<typeof transferSchema>;
+export type CancelResult = z.infer<typeof cancelResultSchema>;
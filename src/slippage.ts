@@ -0,0 +1,125 @@
+import type { OrderDetails, SlippageSettings } from "./types";
+import type { OrderBook } from "./schemas";
+import { roundPrice, type MarketRules } from "./markets";
+
+// Expected execution of a market order, worked out by walking the order book.
+// Pure like the risk checks: callers fetch the book, this module decides.
+
+export interface SlippageEstimate {
+    market: string;
+    side: 'BUY' | 'SELL';
+    size: number;
+    // Part of the size the visible book can fill
+    filledSize: number;
+    bestBid?: number;
+    bestAsk?: number;
+    midPrice?: number;
+    // Volume-weighted price of the filled part
+    averagePrice?: number;
+    // Price of the deepest level the order reaches
+    worstPrice?: number;
+    // Average price against the mid (or the best price when one side is empty), always >= 0
+    slippageBps?: number;
+    levelsUsed: number;
+}
+
+export type SlippageDecision =
+    | { action: 'send'; estimate: SlippageEstimate }
+    | { action: 'limit'; estimate: SlippageEstimate; price: string; reason: string }
+    | { action: 'reject'; estimate: SlippageEstimate; reason: string };
+
+const BPS = 10000;
+
+export function estimateSlippage(book: OrderBook, side: 'BUY' | 'SELL', size: number): SlippageEstimate {
+    const bestBid = book.bids.length ? Number(book.bids[0][0]) : undefined;
+    const bestAsk = book.asks.length ? Number(book.asks[0][0]) : undefined;
+    const midPrice = bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : undefined;
+
+    // A buy takes the asks, a sell the bids
+    const levels = side === 'BUY' ? book.asks : book.bids;
+    let remaining = size;
+    let notional = 0;
+    let worstPrice: number | undefined;
+    let levelsUsed = 0;
+    for (const [levelPrice, levelSize] of levels) {
+        if (remaining <= 0) break;
+        const price = Number(levelPrice);
+        const taken = Math.min(remaining, Number(levelSize));
+        notional += taken * price;
+        remaining -= taken;
+        worstPrice = price;
+        levelsUsed++;
+    }
+
+    // Float dust from the subtraction must not read as an unfilled remainder
+    const filledSize = remaining > size * 1e-9 ? Number((size - remaining).toPrecision(12)) : size;
+    const averagePrice = filledSize > 0 ? notional / filledSize : undefined;
+    const reference = midPrice ?? (side === 'BUY' ? bestAsk : bestBid);
+    const slippageBps = averagePrice !== undefined && reference
+        ? Math.max(0, (side === 'BUY' ? averagePrice - reference : reference - averagePrice) / reference * BPS)
+        : undefined;
+
+    return {
+        market: book.market,
+        side,
+        size,
+        filledSize,
+        bestBid,
+        bestAsk,
+        midPrice,
+        averagePrice,
+        worstPrice,
+        slippageBps,
+        levelsUsed,
+    };
+}
+
+// Highest price a buy (lowest a sell) may pay under the cap, on the tick and inside it
+export function slippageLimitPrice(rules: MarketRules, estimate: SlippageEstimate, maxBps: number): string | undefined {
+    const reference = estimate.midPrice ?? (estimate.side === 'BUY' ? estimate.bestAsk : estimate.bestBid);
+    if (!reference) return undefined;
+    const direction = estimate.side === 'BUY' ? 1 : -1;
+    return roundPrice(rules, reference * (1 + direction * maxBps / BPS), estimate.side);
+}
+
+// Decides what happens to a market order whose expected slippage is known
+export function applySlippageCap(
+    order: OrderDetails,
+    estimate: SlippageEstimate,
+    rules: MarketRules,
+    settings: SlippageSettings,
+): SlippageDecision {
+    const shortfall = estimate.filledSize < estimate.size;
+    const overCap = estimate.slippageBps === undefined || estimate.slippageBps > settings.maxBps;
+    if (!shortfall && !overCap) {
+        return { action: 'send', estimate };
+    }
+
+    const reason = shortfall
+        ? `the visible ${order.market} book only holds ${estimate.filledSize} of the ${estimate.size} requested`
+        : estimate.slippageBps === undefined
+            ? `the ${order.market} book has no ${order.side === 'BUY' ? 'asks' : 'bids'}`
+            : `expected slippage of ${estimate.slippageBps.toFixed(1)} bps exceeds the ${settings.maxBps} bps cap`;
+
+    const price = settings.onExceed === 'limit' ? slippageLimitPrice(rules, estimate, settings.maxBps) : undefined;
+    return price
+        ? { action: 'limit', estimate, price, reason }
+        : { action: 'reject', estimate, reason };
+}
+
+export function formatSlippageEstimate(estimate: SlippageEstimate): string {
+    const lines = [
+        `• Best bid / ask: ${estimate.bestBid ?? '-'} / ${estimate.bestAsk ?? '-'}` +
+            (estimate.midPrice ? ` (spread ${((estimate.bestAsk! - estimate.bestBid!) / estimate.midPrice * BPS).toFixed(1)} bps)` : ''),
+    ];
+    if (estimate.averagePrice !== undefined) {
+        lines.push(`• Expected average fill: ${estimate.averagePrice.toFixed(4)} over ${estimate.levelsUsed} level(s), worst ${estimate.worstPrice}`);
+    }
+    if (estimate.slippageBps !== undefined) {
+        lines.push(`• Expected slippage: ${estimate.slippageBps.toFixed(1)} bps`);
+    }
+    if (estimate.filledSize < estimate.size) {
+        lines.push(`• Only ${estimate.filledSize} of ${estimate.size} can fill against the visible book`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { defineStrategy } from "../strategy";
+import type { OrderDetails } from "../types";
+
+// Dollar-cost averaging: a fixed notional at market on every tick, per market,
+// until the optional budget is spent. Spending is counted from the fills, an
+// order that was refused or rounded away doesn't use up the budget.
+export default defineStrategy({
+    description: 'Buys (or sells) a fixed USD notional at market on every tick until maxNotional is reached',
+    params: z.object({
+        notional: z.number().positive(),
+        side: z.enum(['BUY', 'SELL']).default('BUY'),
+        // Total USD per market, unlimited when omitted
+        maxNotional: z.number().positive().optional(),
+    }),
+    onFill(ctx, fill) {
+        const spent = (ctx.state.spent ?? {}) as Record<string, number>;
+        spent[fill.market] = (spent[fill.market] ?? 0) + Number(fill.size) * Number(fill.price);
+        ctx.state.spent = spent;
+    },
+    onTick(ctx, tick) {
+        const spent = (ctx.state.spent ?? {}) as Record<string, number>;
+        const orders: OrderDetails[] = [];
+        for (const market of tick.markets) {
+            const price = Number(market.last_price || market.mark_price);
+            const used = spent[market.symbol] ?? 0;
+            const notional = Math.min(ctx.params.notional, (ctx.params.maxNotional ?? Infinity) - used);
+            if (!(price > 0) || notional <= 0) continue;
+
+            orders.push({
+                market: market.symbol,
+                side: ctx.params.side,
+                type: 'MARKET',
+                size: String(notional / price),
+            });
+        }
+        if (!orders.length) {
+            ctx.log('budget spent, nothing to do');
+        }
+        return orders;
+    },
+});
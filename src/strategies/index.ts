@@ -0,0 +1,9 @@
+import type { Strategy } from "../strategy";
+import dca from "./dca";
+import trend from "./trend";
+
+// Strategies that can be started by name, anything else is loaded from a module path
+export const builtinStrategies: Record<string, Strategy<any>> = {
+    dca,
+    trend,
+};
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { defineStrategy } from "../strategy";
+import { CANDLE_RESOLUTIONS } from "../paradex";
+import { signedPositionSize } from "../risk";
+import type { CandleResolution, OrderDetails } from "../types";
+
+// Follows the market analysis: long on BUY, short on SELL, flat on HOLD when
+// `closeOnHold` is set. Sizes to a fixed notional and only trades the difference
+// between the current and the target position.
+export default defineStrategy({
+    description: 'Holds a long or short of a fixed USD notional following the BUY/SELL recommendation of the market analysis',
+    params: z.object({
+        notional: z.number().positive(),
+        resolution: z.number().refine(
+            (value): value is CandleResolution => (CANDLE_RESOLUTIONS as readonly number[]).includes(value),
+            { message: `resolution must be one of ${CANDLE_RESOLUTIONS.join(', ')}` },
+        ).optional(),
+        // Recommendations below this confidence are treated as HOLD
+        minConfidence: z.number().min(0).max(1).default(0.5),
+        closeOnHold: z.boolean().default(false),
+    }),
+    async onTick(ctx, tick) {
+        const orders: OrderDetails[] = [];
+        for (const market of tick.markets) {
+            const analysis = await ctx.analyze(market.symbol, ctx.params.resolution as CandleResolution | undefined);
+            const price = analysis.metrics.lastPrice;
+            const position = tick.positions.find((p) => p.market === market.symbol);
+            const current = position ? signedPositionSize(position) : 0;
+
+            const recommendation = analysis.confidence >= ctx.params.minConfidence ? analysis.recommendation : 'HOLD';
+            const target = recommendation === 'BUY'
+                ? ctx.params.notional / price
+                : recommendation === 'SELL'
+                    ? -ctx.params.notional / price
+                    : ctx.params.closeOnHold ? 0 : current;
+            ctx.state[market.symbol] = { recommendation, confidence: analysis.confidence, target };
+
+            // Within 10% of the target is close enough, so a small price move doesn't rebalance
+            const difference = target - current;
+            if (target !== 0 && Math.abs(difference) < Math.abs(target) * 0.1) continue;
+            if (difference === 0) continue;
+
+            ctx.log(`${market.symbol} ${recommendation} (${analysis.confidence}), position ${current} -> ${target.toFixed(6)}`);
+            orders.push({
+                market: market.symbol,
+                side: difference > 0 ? 'BUY' : 'SELL',
+                type: 'MARKET',
+                size: String(Math.abs(difference)),
+                // Closing to flat must not flip the position
+                ...(target === 0 && { reduceOnly: true }),
+            });
+        }
+        return orders;
+    },
+});
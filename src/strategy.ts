@@ -0,0 +1,474 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { cli, formatMsg, input } from "@daydreamsai/core/v1";
+import { z } from "zod";
+import type { CandleQuery, CandleResolution, OrderDetails } from "./types";
+import type { Candle, Market, ParadexFill, ParadexOrder, Position } from "./schemas";
+import type { ParadexClient, BatchOrderResult } from "./paradex";
+import type { AnalysisResult } from "./analysis";
+import type { ParadexFeed } from "./feed";
+import { roundPrice, roundSize } from "./markets";
+import { journalBatchResults } from "./memory";
+import { builtinStrategies } from "./strategies";
+
+// Autonomous strategies: a module with onStart/onTick/onFill hooks runs on a
+// schedule or on feed events, and the orders it returns go through the same
+// risk checks, market rules and order journal as the agent's own orders.
+// Instances and their state are kept in <dataDir>/strategies.json and resume
+// after a restart.
+
+export type StrategyTrigger = 'start' | 'schedule' | 'fill' | 'price_move';
+
+export interface StrategyTick {
+    time: number;
+    trigger: StrategyTrigger;
+    // Latest snapshots of the strategy's markets
+    markets: Market[];
+    // Positions and open orders of the strategy's account in those markets
+    positions: Position[];
+    openOrders: ParadexOrder[];
+}
+
+export interface StrategyContext<P = Record<string, unknown>> {
+    readonly name: string;
+    readonly account: string;
+    readonly markets: readonly string[];
+    readonly params: P;
+    // Saved after every hook and restored on restart, keep it JSON-serializable
+    state: Record<string, unknown>;
+    analyze(market: string, resolution?: CandleResolution): Promise<AnalysisResult>;
+    candles(market: string, query?: CandleQuery): Promise<Candle[]>;
+    log(message: string): void;
+}
+
+type HookResult = OrderDetails[] | void | Promise<OrderDetails[] | void>;
+
+export interface Strategy<P = Record<string, unknown>> {
+    description: string;
+    // Validates and defaults the params given at start
+    params?: z.ZodType<P, z.ZodTypeDef, unknown>;
+    // Runs on every start, resuming after a restart included, check ctx.state to run once
+    onStart?(ctx: StrategyContext<P>, tick: StrategyTick): HookResult;
+    onTick?(ctx: StrategyContext<P>, tick: StrategyTick): HookResult;
+    onFill?(ctx: StrategyContext<P>, fill: ParadexFill, tick: StrategyTick): HookResult;
+}
+
+// Lets a strategy module infer its params type from the schema
+export function defineStrategy<P>(strategy: Strategy<P>): Strategy<P> {
+    return strategy;
+}
+
+export interface StrategySpec {
+    // Instance name, unique
+    name: string;
+    // Built-in strategy name or path to a module whose default export is a Strategy
+    strategy: string;
+    account: string;
+    markets: string[];
+    intervalSeconds?: number;
+    events?: Array<'fill' | 'price_move'>;
+    params?: Record<string, unknown>;
+}
+
+export interface StrategyRecord extends Required<Omit<StrategySpec, 'intervalSeconds'>> {
+    intervalSeconds?: number;
+    status: 'running' | 'stopped' | 'failed';
+    state: Record<string, unknown>;
+    // Recent orders placed by the instance, to route fills to onFill
+    orderIds: string[];
+    startedAt: number;
+    lastTickAt?: number;
+    lastFillCheckAt: number;
+    // Fills already passed to onFill, the checks overlap and a restart must not repeat them
+    handledFills: string[];
+    lastError?: string;
+    // Consecutive failed hooks, the instance stops at MAX_CONSECUTIVE_ERRORS
+    errors: number;
+}
+
+export type StrategyEvent =
+    | { type: 'orders'; name: string; trigger: StrategyTrigger; results: BatchOrderResult[]; orders: OrderDetails[] }
+    | { type: 'error'; name: string; error: string; stopped: boolean };
+
+interface RunningStrategy {
+    record: StrategyRecord;
+    strategy: Strategy<any>;
+    context: StrategyContext<any>;
+    client: ParadexClient;
+    timer?: ReturnType<typeof setInterval>;
+    unsubscribe?: () => void;
+    busy: boolean;
+    referencePrices: Map<string, number>;
+}
+
+export interface StrategyRunnerOptions {
+    filePath: string;
+    // Market snapshots, live prices included when the feed is connected
+    loadMarkets: () => Promise<Market[]>;
+    feed?: ParadexFeed;
+    // Move that counts as a price_move trigger
+    priceMovePercent?: number;
+}
+
+const MIN_INTERVAL_SECONDS = 10;
+const MAX_CONSECUTIVE_ERRORS = 5;
+const MAX_TRACKED_ORDERS = 500;
+const MAX_TRACKED_FILLS = 500;
+
+export async function loadStrategy(ref: string): Promise<Strategy<any>> {
+    const builtin = builtinStrategies[ref];
+    if (builtin) return builtin;
+    if (!/\.(ts|js|mjs)$/.test(ref)) {
+        throw new Error(`Unknown strategy '${ref}', built-in strategies: ${Object.keys(builtinStrategies).join(', ')}`);
+    }
+    const module = await import(path.resolve(ref));
+    const strategy = module.default;
+    if (!strategy || typeof strategy !== 'object' || !(strategy.onTick || strategy.onStart || strategy.onFill)) {
+        throw new Error(`${ref} must export a strategy with onStart, onTick or onFill as its default export`);
+    }
+    return strategy;
+}
+
+export class StrategyRunner {
+    private readonly clients: ParadexClient[];
+    private readonly options: StrategyRunnerOptions;
+    private records = new Map<string, StrategyRecord>();
+    private running = new Map<string, RunningStrategy>();
+    private listeners = new Set<(event: StrategyEvent) => void>();
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(clients: ParadexClient[], options: StrategyRunnerOptions) {
+        this.clients = clients;
+        this.options = options;
+    }
+
+    // Loads the saved instances and resumes the ones that were running
+    async restore(): Promise<void> {
+        const content = await readFile(this.options.filePath, "utf8").catch(() => "");
+        const saved: StrategyRecord[] = content ? JSON.parse(content) : [];
+        for (const record of saved) {
+            this.records.set(record.name, record);
+        }
+        for (const record of saved.filter((r) => r.status === 'running')) {
+            await this.launch(record).catch((error) => {
+                console.error(`Could not resume strategy ${record.name}:`, error);
+                this.fail(record, error);
+            });
+        }
+    }
+
+    async start(spec: StrategySpec): Promise<StrategyRecord> {
+        const existing = this.records.get(spec.name);
+        if (existing?.status === 'running') {
+            throw new Error(`Strategy ${spec.name} is already running`);
+        }
+        if (!spec.intervalSeconds && !spec.events?.length) {
+            throw new Error('A strategy needs a schedule (intervalSeconds) or event triggers (fill, price_move)');
+        }
+        if (spec.intervalSeconds !== undefined && spec.intervalSeconds < MIN_INTERVAL_SECONDS) {
+            throw new Error(`Strategies run at most every ${MIN_INTERVAL_SECONDS}s`);
+        }
+        if (spec.events?.length && !this.options.feed) {
+            throw new Error('Event triggers need the market feed, enable PARADEX_WS_ENABLED or use a schedule');
+        }
+
+        const record: StrategyRecord = {
+            name: spec.name,
+            strategy: spec.strategy,
+            account: spec.account,
+            markets: spec.markets,
+            intervalSeconds: spec.intervalSeconds,
+            events: spec.events ?? [],
+            params: spec.params ?? {},
+            status: 'running',
+            // A restarted instance picks up where it stopped
+            state: existing?.strategy === spec.strategy ? existing.state : {},
+            orderIds: existing?.orderIds ?? [],
+            startedAt: Date.now(),
+            lastFillCheckAt: Date.now(),
+            handledFills: existing?.handledFills ?? [],
+            errors: 0,
+        };
+        await this.launch(record);
+        this.records.set(record.name, record);
+        await this.save();
+        return record;
+    }
+
+    async stop(name: string): Promise<StrategyRecord> {
+        const record = this.records.get(name);
+        if (!record) {
+            throw new Error(`No strategy named ${name}`);
+        }
+        this.halt(name);
+        record.status = 'stopped';
+        await this.save();
+        return record;
+    }
+
+    list(): StrategyRecord[] {
+        return [...this.records.values()];
+    }
+
+    subscribe(listener: (event: StrategyEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Shutdown: timers stop but the instances stay 'running' and resume on restart
+    close() {
+        for (const name of [...this.running.keys()]) {
+            this.halt(name);
+        }
+    }
+
+    private async launch(record: StrategyRecord) {
+        const client = this.clients.find((c) => c.name.toLowerCase() === record.account.toLowerCase());
+        if (!client) {
+            throw new Error(`Unknown account '${record.account}'`);
+        }
+        const strategy = await loadStrategy(record.strategy);
+        let params = record.params;
+        if (strategy.params) {
+            const result = strategy.params.safeParse(record.params);
+            if (!result.success) {
+                throw new Error(`Invalid params for ${record.strategy}: ` +
+                    result.error.issues.map((issue) => `${issue.path.join('.') || 'params'}: ${issue.message}`).join('; '));
+            }
+            params = result.data;
+        }
+
+        const run: RunningStrategy = {
+            record,
+            strategy,
+            client,
+            busy: false,
+            referencePrices: new Map(),
+            context: {
+                name: record.name,
+                account: client.name,
+                markets: record.markets,
+                params,
+                get state() {
+                    return record.state;
+                },
+                set state(value) {
+                    record.state = value;
+                },
+                analyze: (market, resolution) => client.analyzeMarket(market, undefined, resolution),
+                candles: (market, query) => client.getCandles(market, query),
+                log: (message) => console.log(`[strategy ${record.name}] ${message}`),
+            },
+        };
+        this.running.set(record.name, run);
+
+        await this.runHook(run, 'start', (tick) => strategy.onStart?.(run.context, tick));
+        if (record.intervalSeconds) {
+            run.timer = setInterval(() => void this.tick(run, 'schedule'), record.intervalSeconds * 1000);
+        }
+        if (record.events.length && this.options.feed) {
+            run.unsubscribe = this.options.feed.subscribe((event) => {
+                if (event.type === 'fill' && record.events.includes('fill') && record.markets.includes(event.market)) {
+                    void this.tick(run, 'fill');
+                } else if (event.type === 'markets_summary' && record.events.includes('price_move') &&
+                    record.markets.includes(event.market)) {
+                    const price = Number(event.data.last_traded_price || event.data.mark_price);
+                    if (!(price > 0)) return;
+                    const reference = run.referencePrices.get(event.market);
+                    if (reference === undefined) {
+                        run.referencePrices.set(event.market, price);
+                    } else if (Math.abs(price - reference) / reference * 100 >= (this.options.priceMovePercent ?? 1)) {
+                        run.referencePrices.set(event.market, price);
+                        void this.tick(run, 'price_move');
+                    }
+                }
+            });
+        }
+    }
+
+    private halt(name: string) {
+        const run = this.running.get(name);
+        if (!run) return;
+        clearInterval(run.timer);
+        run.unsubscribe?.();
+        this.running.delete(name);
+    }
+
+    // Routes new fills of the instance's orders to onFill, then runs onTick
+    private async tick(run: RunningStrategy, trigger: StrategyTrigger) {
+        // A slow tick is not stacked on, the next trigger catches up
+        if (run.busy) return;
+        const { strategy, context } = run;
+
+        await this.runHook(run, trigger, async (tick) => {
+            const orders: OrderDetails[] = [];
+            if (strategy.onFill && run.record.orderIds.length) {
+                const since = run.record.lastFillCheckAt;
+                run.record.lastFillCheckAt = tick.time;
+                const fills = (await Promise.all(run.record.markets.map((market) =>
+                    run.client.getFills({ market, startAt: since - 60 * 1000 }))))
+                    .flat()
+                    .filter((fill) => run.record.orderIds.includes(fill.order_id) && !run.record.handledFills.includes(fill.id))
+                    .sort((a, b) => a.created_at - b.created_at);
+                for (const fill of fills) {
+                    run.record.handledFills = [...run.record.handledFills, fill.id].slice(-MAX_TRACKED_FILLS);
+                    orders.push(...(await strategy.onFill(context, fill, tick) ?? []));
+                }
+            }
+            orders.push(...(await strategy.onTick?.(context, tick) ?? []));
+            return orders;
+        });
+    }
+
+    private async runHook(
+        run: RunningStrategy,
+        trigger: StrategyTrigger,
+        hook: (tick: StrategyTick) => HookResult,
+    ) {
+        run.busy = true;
+        try {
+            const tick = await this.snapshot(run, trigger);
+            const orders = await hook(tick) ?? [];
+            run.record.lastTickAt = tick.time;
+            if (orders.length) {
+                await this.execute(run, trigger, orders);
+            }
+            run.record.errors = 0;
+            run.record.lastError = undefined;
+        } catch (error) {
+            run.record.errors++;
+            run.record.lastError = error instanceof Error ? error.message : String(error);
+            console.error(`Strategy ${run.record.name} failed on ${trigger}:`, error);
+            if (run.record.errors >= MAX_CONSECUTIVE_ERRORS) {
+                this.fail(run.record, error);
+            }
+            this.emit({
+                type: 'error',
+                name: run.record.name,
+                error: run.record.lastError,
+                stopped: run.record.status === 'failed',
+            });
+            if (trigger === 'start') {
+                this.halt(run.record.name);
+                throw error;
+            }
+        } finally {
+            run.busy = false;
+            await this.save();
+        }
+    }
+
+    private async snapshot(run: RunningStrategy, trigger: StrategyTrigger): Promise<StrategyTick> {
+        const { markets } = run.record;
+        const [allMarkets, positions, openOrders] = await Promise.all([
+            this.options.loadMarkets(),
+            run.client.getPositions(),
+            run.client.getOpenOrders(),
+        ]);
+        return {
+            time: Date.now(),
+            trigger,
+            markets: allMarkets.filter((m) => markets.includes(m.symbol)),
+            positions: positions.filter((p) => markets.includes(p.market)),
+            openOrders: openOrders.filter((o) => markets.includes(o.market)),
+        };
+    }
+
+    // Snaps the orders onto the market rules and sends them as one risk-checked batch
+    private async execute(run: RunningStrategy, trigger: StrategyTrigger, requested: OrderDetails[]) {
+        const { record, client } = run;
+        const outside = requested.find((order) => !record.markets.includes(order.market));
+        if (outside) {
+            throw new Error(`Order for ${outside.market}, which is not one of the strategy's markets`);
+        }
+
+        const rounded = await Promise.all(requested.map(async (order) => {
+            const rules = await client.getMarketRules(order.market);
+            return {
+                ...order,
+                size: roundSize(rules, order.size),
+                ...(order.price && { price: roundPrice(rules, order.price, order.side as 'BUY' | 'SELL') }),
+                ...(order.triggerPrice && { triggerPrice: roundPrice(rules, order.triggerPrice, 'nearest') }),
+            };
+        }));
+        // Sizes below one increment round to nothing, there is no order to send
+        const orders = rounded.filter((order) => Number(order.size) > 0);
+        if (orders.length < rounded.length) {
+            run.context.log(`skipped ${rounded.length - orders.length} order(s) smaller than the size increment`);
+        }
+        if (!orders.length) return;
+
+        const results = await client.executeBatchOrders(orders);
+        await journalBatchResults(
+            orders,
+            results,
+            `strategy:${record.name}`,
+            `strategy ${record.name} (${record.strategy}) on ${trigger}`,
+            client.account.name,
+        );
+
+        record.orderIds = [...record.orderIds, ...results.filter((r) => r.orderId).map((r) => r.orderId)]
+            .slice(-MAX_TRACKED_ORDERS);
+        this.emit({ type: 'orders', name: record.name, trigger, results, orders });
+    }
+
+    private fail(record: StrategyRecord, error: unknown) {
+        this.halt(record.name);
+        record.status = 'failed';
+        record.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Whole-file rewrites, chained so they never overlap
+    private save(): Promise<void> {
+        const content = JSON.stringify(this.list(), null, 2);
+        this.writes = this.writes.then(async () => {
+            await mkdir(path.dirname(this.options.filePath), { recursive: true });
+            const temporary = `${this.options.filePath}.tmp`;
+            await writeFile(temporary, content);
+            await rename(temporary, this.options.filePath);
+        }).catch((error) => console.error('Failed to save strategies:', error));
+        return this.writes;
+    }
+
+    private emit(event: StrategyEvent) {
+        for (const listener of this.listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Strategy listener failed:', error);
+            }
+        }
+    }
+}
+
+// Reports strategy orders and failures to the agent
+export function createStrategyInput(runner: StrategyRunner) {
+    return input({
+        schema: z.object({
+            event: z.string(),
+            strategy: z.string(),
+            text: z.string(),
+        }),
+        format: ({ text }) =>
+            formatMsg({
+                role: "user",
+                content: text,
+                user: "paradex",
+            }),
+        subscribe(send) {
+            return runner.subscribe((event) => {
+                const text = event.type === 'orders'
+                    ? `Strategy ${event.name} (${event.trigger}) sent ${event.orders.length} order(s):\n` +
+                        event.results.map((result, i) =>
+                            `• ${event.orders[i].type} ${event.orders[i].side} ${event.orders[i].size} ${event.orders[i].market}` +
+                            (event.orders[i].price ? ` @ ${event.orders[i].price}` : '') + ' - ' +
+                            (result.error ? `${result.status} (${result.error})` : `${result.status}, order ${result.orderId}`)
+                        ).join('\n')
+                    : `Strategy ${event.name} failed: ${event.error}` + (event.stopped ? ' - stopped after repeated errors' : '');
+                send(cli.contexts!.cli, { user: "admin" }, { event: event.type, strategy: event.name, text });
+            });
+        },
+    });
+}
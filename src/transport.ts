@@ -0,0 +1,184 @@
+import type { z } from "zod";
+import type { ParadexAccount, ParadexConfig } from "./types";
+import { AuthError, InvalidResponseError, ParadexApiError, RateLimitError } from "./errors";
+
+// Single HTTP path to the Paradex REST API: JWT headers, retries with backoff for
+// idempotent GETs, one re-authentication on 401, rate-limit handling and
+// response validation.
+
+export interface ParadexRequest<T = unknown> {
+    method?: 'GET' | 'POST' | 'DELETE';
+    path: string;
+    query?: Record<string, string | undefined>;
+    body?: unknown;
+    // Send the account JWT, defaults to true
+    auth?: boolean;
+    headers?: Record<string, string>;
+    // Validates the response body, see schemas.ts
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+const MAX_GET_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 250;
+// Longer waits are surfaced as a RateLimitError instead of blocking the agent
+const MAX_RATE_LIMIT_WAIT_MS = 10000;
+
+// Rate-limit window last reported by each API host
+const rateLimitWindows = new Map<string, { remaining: number; resetAt: number }>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function buildUrl(config: ParadexConfig, request: ParadexRequest): string {
+    const url = `${config.apiBaseUrl}${request.path}`;
+    const query = Object.entries(request.query ?? {})
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .join('&');
+    return query ? `${url}?${query}` : url;
+}
+
+// Paradex reports the reset as a unix timestamp, Retry-After is in seconds
+function parseResetTime(value: string | null): number | undefined {
+    if (!value || Number.isNaN(Number(value))) return undefined;
+    const reset = Number(value);
+    return reset > 1e12 ? reset : reset * 1000;
+}
+
+function retryAfterMs(response: Response): number | undefined {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter && !Number.isNaN(Number(retryAfter))) {
+        return Number(retryAfter) * 1000;
+    }
+    const resetAt = parseResetTime(response.headers.get('x-ratelimit-reset'));
+    return resetAt !== undefined ? Math.max(0, resetAt - Date.now()) : undefined;
+}
+
+function trackRateLimit(config: ParadexConfig, response: Response) {
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const resetAt = parseResetTime(response.headers.get('x-ratelimit-reset'));
+    if (remaining !== null && resetAt !== undefined) {
+        rateLimitWindows.set(config.apiBaseUrl, { remaining: Number(remaining), resetAt });
+    }
+}
+
+// Holds the request back while the current window is exhausted
+async function waitForRateLimit(config: ParadexConfig) {
+    const window = rateLimitWindows.get(config.apiBaseUrl);
+    if (!window || window.remaining > 0) return;
+
+    const waitMs = window.resetAt - Date.now();
+    if (waitMs <= 0) {
+        rateLimitWindows.delete(config.apiBaseUrl);
+        return;
+    }
+    if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new RateLimitError(`Paradex rate limit exhausted, resets in ${Math.ceil(waitMs / 1000)}s`, waitMs);
+    }
+    await sleep(waitMs);
+}
+
+function validateResponse<T>(request: ParadexRequest<T>, data: unknown, status: number): T {
+    const result = request.schema!.safeParse(data);
+    if (!result.success) {
+        throw new InvalidResponseError(
+            `${request.method ?? 'GET'} ${request.path}`,
+            result.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+            status,
+        );
+    }
+    return result.data;
+}
+
+async function errorFromResponse(response: Response): Promise<ParadexApiError> {
+    const errorData = await response.json().catch(() => ({}));
+    const code = errorData.error ?? `HTTP_${response.status}`;
+    const message = errorData.message || response.statusText || `Paradex request failed with status ${response.status}`;
+
+    if (response.status === 401 || response.status === 403) {
+        return new AuthError(code, message, response.status);
+    }
+    if (response.status === 429) {
+        return new RateLimitError(message, retryAfterMs(response));
+    }
+    return new ParadexApiError(code, message, response.status);
+}
+
+// `reauthenticate` refreshes account.jwtToken, it is called at most once per request
+export async function paradexRequest<T = unknown>(
+    config: ParadexConfig,
+    account: ParadexAccount | undefined,
+    request: ParadexRequest<T>,
+    reauthenticate?: () => Promise<void>,
+): Promise<T> {
+    const method = request.method ?? 'GET';
+    const useAuth = request.auth !== false;
+    if (useAuth && !account?.jwtToken) {
+        throw new AuthError('NO_JWT', 'No JWT token available. Please authenticate first.');
+    }
+
+    let attempt = 0;
+    let reauthenticated = false;
+    let rateLimited = false;
+
+    while (true) {
+        attempt++;
+        await waitForRateLimit(config);
+
+        let response: Response;
+        try {
+            response = await fetch(buildUrl(config, request), {
+                method,
+                headers: {
+                    Accept: "application/json",
+                    ...(request.body !== undefined && { "Content-Type": "application/json" }),
+                    ...(useAuth && { Authorization: `Bearer ${account!.jwtToken}` }),
+                    ...request.headers,
+                },
+                body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+            });
+        } catch (error) {
+            // Network failures are only retried where repeating the request is harmless
+            if (method === 'GET' && attempt < MAX_GET_ATTEMPTS) {
+                await sleep(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+                continue;
+            }
+            throw error;
+        }
+
+        trackRateLimit(config, response);
+
+        if (response.ok) {
+            const text = response.status === 204 ? '' : await response.text();
+            let data: unknown;
+            try {
+                data = text ? JSON.parse(text) : undefined;
+            } catch {
+                throw new InvalidResponseError(`${method} ${request.path}`, [`body is not JSON: ${text.slice(0, 100)}`], response.status);
+            }
+            return request.schema ? validateResponse(request, data, response.status) : data as T;
+        }
+
+        if (response.status === 401 && useAuth && reauthenticate && !reauthenticated) {
+            reauthenticated = true;
+            await reauthenticate();
+            continue;
+        }
+
+        // A 429 means the request was not processed, so any method may be sent again once
+        if (response.status === 429 && !rateLimited) {
+            const waitMs = retryAfterMs(response) ?? BASE_RETRY_DELAY_MS * 2 ** attempt;
+            if (waitMs <= MAX_RATE_LIMIT_WAIT_MS) {
+                rateLimited = true;
+                await sleep(waitMs);
+                continue;
+            }
+        }
+
+        if (method === 'GET' && response.status >= 500 && attempt < MAX_GET_ATTEMPTS) {
+            await sleep(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+            continue;
+        }
+
+        throw await errorFromResponse(response);
+    }
+}
@@ -4,6 +4,115 @@ export interface ParadexAccount {
     //ethereumAccount: string;
     privateKey: string;
     jwtToken?: string;
+    // Name the account is picked by in requests, e.g. "hedge"
+    name?: string;
+    // Name of the main account when this is a subaccount
+    parent?: string;
+}
+
+export interface AccountCredentials {
+    readonly name: string;
+    readonly address: string;
+    readonly privateKey: string;
+    readonly parent?: string;
+}
+
+export type OrderType =
+    | 'MARKET'
+    | 'LIMIT'
+    | 'STOP_MARKET'
+    | 'STOP_LIMIT'
+    | 'TAKE_PROFIT_MARKET'
+    | 'TAKE_PROFIT_LIMIT';
+
+export interface OrderDetails {
+    market: string;
+    side: string;
+    type: string;
+    size: string;
+    price?: string;
+    // Price at which STOP_* and TAKE_PROFIT_* orders become active
+    triggerPrice?: string;
+    // GTC, IOC or POST_ONLY, sent to Paradex as the order instruction
+    timeInForceType?: string;
+    reduceOnly?: boolean;
+    // Caller-chosen id, unique per account
+    clientId?: string;
+}
+
+// Paging and time filters shared by the history endpoints (fills, funding payments, transfers)
+export interface HistoryQuery {
+    market?: string;
+    // Unix ms
+    startAt?: number;
+    endAt?: number;
+    pageSize?: number;
+    cursor?: string;
+}
+
+// Candle length in minutes, the resolutions /markets/klines serves
+export type CandleResolution = 1 | 3 | 5 | 15 | 30 | 60;
+
+export interface CandleQuery {
+    resolution?: CandleResolution;
+    // Unix ms, the window defaults to the last 100 candles
+    startAt?: number;
+    endAt?: number;
+}
+
+export interface AnalysisSettings {
+    readonly resolution: CandleResolution;
+    // Candles the indicators are computed over
+    readonly candles: number;
+}
+
+export interface RiskLimits {
+    // USD notional of a single order
+    readonly maxOrderNotional: number;
+    // USD notional of the resulting position in one market
+    readonly maxPositionNotional: number;
+    readonly maxLeverage: number;
+    // USD drop in account value since the start of the UTC day
+    readonly maxDailyLoss: number;
+    // Markets new exposure may be opened in, empty allows every market
+    readonly allowedMarkets: readonly string[];
+}
+
+export interface ConfirmationSettings {
+    // Orders, cancels and batches at or above this USD notional need a confirmation token, 0 confirms everything
+    readonly minNotional: number;
+    readonly ttlSeconds: number;
+}
+
+export interface SlippageSettings {
+    // Largest expected slippage of a market order, in basis points from the mid price
+    readonly maxBps: number;
+    // Past the cap, 'limit' sends an IOC limit order at the cap instead and 'reject' refuses the order
+    readonly onExceed: 'limit' | 'reject';
+}
+
+export interface MarginSettings {
+    readonly enabled: boolean;
+    readonly pollSeconds: number;
+    // Maintenance margin over account value, the account is liquidated at 1
+    readonly warningRatio: number;
+    readonly criticalRatio: number;
+    // Distance from the mark price to a position's liquidation price, in percent
+    readonly liquidationWarningPercent: number;
+    readonly liquidationCriticalPercent: number;
+    // Past the critical ratio, cut the largest position by autoReducePercent with a reduce-only market order
+    readonly autoReduce: boolean;
+    readonly autoReducePercent: number;
+}
+
+export interface AlertSettings {
+    // How often alerts are checked against the market list, the live feed is checked as it arrives
+    readonly pollSeconds: number;
+}
+
+export interface ConditionalOrderSettings {
+    // How often held orders are checked against the market list and the clock
+    readonly pollSeconds: number;
 }
 
 export interface ParadexConfig {
@@ -11,4 +120,25 @@ export interface ParadexConfig {
     readonly starknet: {
         readonly chainId: string;
     };
+    readonly paperTrading?: {
+        readonly enabled: boolean;
+        readonly initialBalance: number;
+    };
+    readonly risk?: RiskLimits;
+    readonly confirmation?: ConfirmationSettings;
+    readonly slippage?: SlippageSettings;
+    readonly analysis?: AnalysisSettings;
+    readonly margin?: MarginSettings;
+    readonly alerts?: AlertSettings;
+    readonly conditionalOrders?: ConditionalOrderSettings;
+    // Every configured account, the first one is the default
+    readonly accounts?: readonly AccountCredentials[];
+    // Directory holding the order journal and other persisted agent state
+    readonly dataDir?: string;
+    readonly feed?: {
+        readonly enabled: boolean;
+        readonly url: string;
+        readonly markets: readonly string[];
+        readonly priceMovePercent: number;
+    };
 }
\ No newline at end of file